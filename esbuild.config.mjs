@@ -1,6 +1,7 @@
 import esbuild from "esbuild";
 import process from "process";
 import builtins from "builtin-modules";
+import path from "path";
 
 const banner =
 `/*
@@ -11,6 +12,36 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === "production");
 
+// Bundles `inline-worker:<path>` imports into a self-contained script and
+// exposes it as a string, so the worker can be started from a Blob URL
+const inlineWorkerPlugin = {
+	name: "inline-worker",
+	setup(build) {
+		build.onResolve({ filter: /^inline-worker:/ }, (args) => ({
+			path: path.resolve(args.resolveDir, args.path.slice("inline-worker:".length) + ".ts"),
+			namespace: "inline-worker",
+		}));
+
+		build.onLoad({ filter: /.*/, namespace: "inline-worker" }, async (args) => {
+			const result = await esbuild.build({
+				entryPoints: [args.path],
+				bundle: true,
+				write: false,
+				format: "iife",
+				target: "es2018",
+				minify: prod,
+				metafile: true,
+			});
+
+			return {
+				contents: result.outputFiles[0].text,
+				loader: "text",
+				watchFiles: Object.keys(result.metafile.inputs).map((file) => path.resolve(file)),
+			};
+		});
+	},
+};
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
@@ -39,6 +70,7 @@ const context = await esbuild.context({
 	treeShaking: true,
 	outfile: "main.js",
 	minify: prod,
+	plugins: [inlineWorkerPlugin],
 });
 
 if (prod) {
@@ -1,35 +1,99 @@
-import { Plugin, MarkdownPostProcessorContext, TFile } from "obsidian";
-import { Lexer } from "./src/lexer";
-import { Parser } from "./src/parser";
-import { Evaluator, ExecutionContext } from "./src/evaluator";
-import { Renderer } from "./src/renderer";
+import {
+	Editor,
+	Plugin,
+	MarkdownPostProcessorContext,
+	MarkdownView,
+	TAbstractFile,
+	TFile,
+	debounce,
+	getLinkpath,
+	normalizePath,
+} from "obsidian";
+import { Extension } from "@codemirror/state";
+import { ExecutionLimits } from "./src/evaluator";
+import { ErrorNavigator, Renderer } from "./src/renderer";
+import {
+	EvaluationCancelledError,
+	RuntimeClient,
+	deserializeError,
+} from "./src/runtimeClient";
+import {
+	GlobalNames,
+	LIBRARY_CONTEXT_KEY,
+	RuntimeResponse,
+} from "./src/types/runtime.types";
+import { ModuleResolver } from "./src/moduleResolver";
+import {
+	NoteBlock,
+	findNoteBlocks,
+	getSourceLineIndent,
+	scanLxBlocks,
+} from "./src/noteBlocks";
+import { BlockOptions, DEFAULT_BLOCK_OPTIONS } from "./src/blockOptions";
 import { DynamicStyleManager } from "./src/styleManager";
+import { BlockRenderChild } from "./src/blockRenderChild";
 import { MDLXSuggest } from "./src/mdlxSuggest";
 import { MDLXSettings, DEFAULT_SETTINGS } from "./src/settings";
 import { MDLXSettingTab } from "./src/settingsTab";
+import { LX_VIEW_TYPE, LxFileView } from "./src/lxView";
+import { lxDiagnostics } from "./src/editorDiagnostics";
 import {
 	addLxMode,
 	addLxSyntaxHighlight,
 	removeLxMode,
 } from "./src/syntaxHighlighting";
 
+interface RenderedBlock {
+	el: HTMLElement;
+	child: BlockRenderChild;
+	source: string;
+	ctx: MarkdownPostProcessorContext;
+	position?: number;
+	options: BlockOptions;
+	reads: string[];
+}
+
+// Every rendering of a note (its own view, an embed in another note, a hover
+// popover) gets its own global context, so instances never see each other's
+// globals
+interface RenderInstance {
+	sourcePath: string;
+	blocks: RenderedBlock[];
+}
+
 export default class MDLXPlugin extends Plugin {
 	settings: MDLXSettings;
-	private globalContexts: Map<string, ExecutionContext> = new Map();
+	private compiledNotes: Map<string, string> = new Map();
 	private processingQueues: Map<string, Promise<void>> = new Map();
-	private processedBlocks: Map<string, Set<HTMLElement>> = new Map();
+	private renderInstances: Map<string, RenderInstance> = new Map();
 	private renderer: Renderer;
 	private styleManager: DynamicStyleManager;
+	private runtime: RuntimeClient;
+	private moduleResolver: ModuleResolver;
+	private editorExtensions: Extension[] = [];
+
+	scheduleLibraryReload = debounce(() => this.reloadLibrary(), 300, true);
 
 	async onload() {
 		await this.loadSettings();
 
+		this.runtime = this.createRuntime();
+		this.moduleResolver = new ModuleResolver(this.app);
+
 		this.styleManager = new DynamicStyleManager();
 		this.renderer = new Renderer(this.app, this.styleManager);
 		this.registerEditorSuggest(new MDLXSuggest(this));
+		this.registerEditorExtension(this.editorExtensions);
+		this.updateEditorExtensions();
 
 		this.addSettingTab(new MDLXSettingTab(this.app, this));
 
+		this.addCommand({
+			id: "clear-caches",
+			name: "Clear MDLX caches",
+			callback: () => this.clearCaches(),
+		});
+
 		addLxMode();
 		if (window.CodeMirror) {
 			addLxSyntaxHighlight(window.CodeMirror);
@@ -40,20 +104,38 @@ export default class MDLXPlugin extends Plugin {
 			this.processMDLXBlock.bind(this)
 		);
 
+		this.registerView(LX_VIEW_TYPE, (leaf) => new LxFileView(leaf, this));
+		this.registerExtensions(["lx"], LX_VIEW_TYPE);
+
+		this.registerMarkdownPostProcessor((el, ctx) => {
+			el.querySelectorAll<HTMLElement>(".internal-embed").forEach(
+				(embed) => this.processLxEmbed(embed, ctx)
+			);
+		});
+
+		this.app.workspace.onLayoutReady(() => {
+			this.reloadLibrary();
+			this.registerLibraryEvents();
+		});
+
 		this.registerEvent(
 			this.app.workspace.on("file-open", async (file) => {
 				if (file) {
-					await this.preProcessFile(file);
+					await this.compileFile(file);
 				}
 			})
 		);
 
+		this.registerEvent(
+			this.app.workspace.on("layout-change", () => {
+				this.cancelStaleBlocks();
+			})
+		);
+
 		this.registerEvent(
 			this.app.vault.on("delete", (file) => {
 				if (file instanceof TFile) {
-					this.processingQueues.delete(file.path);
-					this.globalContexts.delete(file.path);
-					this.processedBlocks.delete(file.path);
+					this.forgetNote(file.path);
 				}
 			})
 		);
@@ -61,21 +143,7 @@ export default class MDLXPlugin extends Plugin {
 		this.registerEvent(
 			this.app.vault.on("rename", (file, oldPath) => {
 				if (file instanceof TFile) {
-					const queue = this.processingQueues.get(oldPath);
-					if (queue) {
-						this.processingQueues.set(file.path, queue);
-						this.processingQueues.delete(oldPath);
-					}
-					const context = this.globalContexts.get(oldPath);
-					if (context) {
-						this.globalContexts.set(file.path, context);
-						this.globalContexts.delete(oldPath);
-					}
-					const blocks = this.processedBlocks.get(oldPath);
-					if (blocks) {
-						this.processedBlocks.set(file.path, blocks);
-						this.processedBlocks.delete(oldPath);
-					}
+					this.renameNote(oldPath, file.path);
 				}
 			})
 		);
@@ -86,22 +154,11 @@ export default class MDLXPlugin extends Plugin {
 		el: HTMLElement,
 		ctx: MarkdownPostProcessorContext
 	): Promise<void> {
-		let blocks = this.processedBlocks.get(ctx.sourcePath);
-		if (!blocks) {
-			blocks = new Set();
-			this.processedBlocks.set(ctx.sourcePath, blocks);
-		}
-
-		const isReRender = blocks.has(el);
-		if (isReRender) {
-			blocks.clear();
-			this.globalContexts.delete(ctx.sourcePath);
-			this.processingQueues.delete(ctx.sourcePath);
-		}
+		const contextKey = getInstanceKey(ctx.sourcePath, ctx.docId);
+		const block = this.registerBlock(contextKey, source, el, ctx);
+		this.runtime.cancel(el);
 
-		blocks.add(el);
-
-		const previousProcessing = this.processingQueues.get(ctx.sourcePath);
+		const previousProcessing = this.processingQueues.get(contextKey);
 
 		const currentProcessing = (async () => {
 			if (previousProcessing) {
@@ -110,85 +167,721 @@ export default class MDLXPlugin extends Plugin {
 
 			el.addClass("lx-container");
 
-			try {
-				let globalContext = this.globalContexts.get(ctx.sourcePath);
-				if (!globalContext) {
-					globalContext = new ExecutionContext();
-					this.globalContexts.set(ctx.sourcePath, globalContext);
+			const noteBlocks = await this.collectNoteBlocks(ctx, el, source);
+			const compiled = await this.compileNote(
+				contextKey,
+				ctx.sourcePath,
+				noteBlocks
+			);
+			block.position = this.findBlockPosition(
+				contextKey,
+				block,
+				noteBlocks
+			);
+			block.options =
+				block.position === undefined
+					? DEFAULT_BLOCK_OPTIONS
+					: noteBlocks[block.position].options;
+
+			const response = await this.evaluateAndRender(
+				contextKey,
+				source,
+				block.child,
+				ctx.sourcePath,
+				block.position,
+				block.options,
+				this.createErrorNavigator(block)
+			);
+			block.reads = response?.dependencies?.reads ?? [];
+
+			await this.updateDependents(
+				contextKey,
+				ctx.sourcePath,
+				block,
+				compiled,
+				response?.dependencies?.changed ?? []
+			);
+		})();
+
+		this.processingQueues.set(contextKey, currentProcessing);
+		try {
+			await currentProcessing;
+		} finally {
+			if (this.processingQueues.get(contextKey) === currentProcessing) {
+				this.processingQueues.delete(contextKey);
+			}
+		}
+	}
+
+	private registerBlock(
+		contextKey: string,
+		source: string,
+		el: HTMLElement,
+		ctx: MarkdownPostProcessorContext
+	): RenderedBlock {
+		const instance = this.renderInstances.get(contextKey) ?? {
+			sourcePath: ctx.sourcePath,
+			blocks: [],
+		};
+		const blocks = instance.blocks.filter(
+			(block) => block.el !== el && !this.isStaleBlock(block)
+		);
+		const block: RenderedBlock = {
+			el,
+			child: new BlockRenderChild(el, () =>
+				this.releaseBlock(contextKey, block)
+			),
+			source,
+			ctx,
+			options: DEFAULT_BLOCK_OPTIONS,
+			reads: [],
+		};
+
+		blocks.push(block);
+		const replaced = instance.blocks.filter((other) => other.el === el);
+		instance.blocks = blocks;
+		this.renderInstances.set(contextKey, instance);
+		replaced.forEach((other) => other.child.unload());
+		ctx.addChild(block.child);
+		return block;
+	}
+
+	// Called when Obsidian unloads a block. Once the last block of a render
+	// instance is gone, e.g. a closed hover popover, its context is dropped
+	private releaseBlock(contextKey: string, block: RenderedBlock): void {
+		this.runtime.cancel(block.el);
+
+		const instance = this.renderInstances.get(contextKey);
+		if (!instance) {
+			return;
+		}
+
+		instance.blocks = instance.blocks.filter(
+			(other) => other !== block && !this.isStaleBlock(other)
+		);
+		if (
+			instance.blocks.length === 0 &&
+			!this.processingQueues.has(contextKey)
+		) {
+			this.forgetContext(contextKey);
+		}
+	}
+
+	private forgetContext(contextKey: string): void {
+		this.processingQueues.delete(contextKey);
+		this.compiledNotes.delete(contextKey);
+		this.renderInstances.delete(contextKey);
+		this.runtime.reset(contextKey);
+	}
+
+	// The note's own context (compiled when it is opened) and every rendering
+	// of it share its path
+	private forgetNote(sourcePath: string): void {
+		this.forgetContext(sourcePath);
+		for (const [contextKey, instance] of Array.from(this.renderInstances)) {
+			if (instance.sourcePath === sourcePath) {
+				this.forgetContext(contextKey);
+			}
+		}
+	}
+
+	private renameNote(oldPath: string, newPath: string): void {
+		const renames: Array<[string, string]> = [[oldPath, newPath]];
+
+		for (const [contextKey, instance] of Array.from(this.renderInstances)) {
+			if (instance.sourcePath === oldPath) {
+				instance.sourcePath = newPath;
+				renames.push([
+					contextKey,
+					getInstanceKey(
+						newPath,
+						contextKey.slice(oldPath.length + 1)
+					),
+				]);
+			}
+		}
+
+		for (const [oldKey, newKey] of renames) {
+			const queue = this.processingQueues.get(oldKey);
+			if (queue) {
+				this.processingQueues.set(newKey, queue);
+				this.processingQueues.delete(oldKey);
+			}
+			const signature = this.compiledNotes.get(oldKey);
+			if (signature !== undefined) {
+				this.compiledNotes.set(newKey, signature);
+				this.compiledNotes.delete(oldKey);
+			}
+			const instance = this.renderInstances.get(oldKey);
+			if (instance) {
+				this.renderInstances.set(newKey, instance);
+				this.renderInstances.delete(oldKey);
+			}
+			this.runtime.rename(oldKey, newKey);
+		}
+	}
+
+	// Replaced sections are detached from the preview and no longer known to
+	// their section info, which distinguishes them from blocks that are still
+	// being rendered and simply not attached yet
+	private isStaleBlock(block: RenderedBlock): boolean {
+		return (
+			!block.el.isConnected && block.ctx.getSectionInfo(block.el) === null
+		);
+	}
+
+	// Blocks that are only detached for a moment, e.g. by switching views,
+	// keep their pending evaluation
+	private cancelStaleBlocks(): void {
+		for (const instance of Array.from(this.renderInstances.values())) {
+			for (const block of instance.blocks) {
+				if (this.isStaleBlock(block)) {
+					this.runtime.cancel(block.el);
 				}
+			}
+		}
+	}
 
-				const blockContext = new ExecutionContext();
-				blockContext.setGlobalContext(globalContext);
+	private getBlockLine(block: RenderedBlock): number | null {
+		return block.ctx.getSectionInfo(block.el)?.lineStart ?? null;
+	}
 
-				const lexer = new Lexer(source);
-				const tokens = lexer.tokenize();
-				const parser = new Parser(tokens);
-				const ast = parser.parse();
-				const evaluator = new Evaluator(blockContext);
-				const results = evaluator.evaluate(ast);
+	// Identical blocks in one section take the first place that another
+	// rendering of the note has not claimed
+	private findBlockPosition(
+		contextKey: string,
+		block: RenderedBlock,
+		noteBlocks: NoteBlock[]
+	): number | undefined {
+		const matches = findNoteBlocks(
+			noteBlocks,
+			block.source,
+			block.ctx.getSectionInfo(block.el)
+		);
+		const claimed = new Set(
+			(this.renderInstances.get(contextKey)?.blocks ?? [])
+				.filter((other) => other !== block && !this.isStaleBlock(other))
+				.map((other) => other.position)
+		);
+
+		return matches.find((index) => !claimed.has(index)) ?? matches[0];
+	}
 
-				await this.renderer.render(results, el, ctx.sourcePath, source);
-			} catch (error) {
-				console.error("MDLX processing error:", error);
-				this.renderer.renderError(error as Error, el);
+	// Walks the note's blocks in document order. Globals changed by compiling
+	// the note affect every block, while the origin block's own changes only
+	// reach the blocks below it
+	private async updateDependents(
+		contextKey: string,
+		sourcePath: string,
+		origin: RenderedBlock,
+		compiled: string[],
+		changed: string[]
+	): Promise<void> {
+		if (compiled.length === 0 && changed.length === 0) {
+			return;
+		}
+
+		const pending = new Set(compiled);
+		const ordered: Array<{ block: RenderedBlock; line: number }> = [];
+
+		for (const block of this.renderInstances.get(contextKey)?.blocks ??
+			[]) {
+			const line = this.getBlockLine(block);
+			if (line !== null && !this.isStaleBlock(block)) {
+				ordered.push({ block, line });
 			}
-		})();
+		}
+
+		// Blocks in one callout or list share the line of their section
+		ordered.sort(
+			(a, b) =>
+				a.line - b.line ||
+				(a.block.position ?? 0) - (b.block.position ?? 0)
+		);
 
-		this.processingQueues.set(ctx.sourcePath, currentProcessing);
-		await currentProcessing;
+		if (this.getBlockLine(origin) === null) {
+			changed.forEach((name) => pending.add(name));
+		}
+
+		for (const { block } of ordered) {
+			if (block === origin) {
+				changed.forEach((name) => pending.add(name));
+				continue;
+			}
+
+			if (!block.reads.some((name) => pending.has(name))) {
+				continue;
+			}
+
+			const response = await this.evaluateAndRender(
+				contextKey,
+				block.source,
+				block.child,
+				sourcePath,
+				block.position,
+				block.options,
+				this.createErrorNavigator(block)
+			);
+			block.reads = response?.dependencies?.reads ?? [];
+
+			for (const name of response?.dependencies?.changed ?? []) {
+				pending.add(name);
+			}
+		}
+	}
+
+	private createErrorNavigator(block: RenderedBlock): ErrorNavigator {
+		return (line, column) => {
+			this.revealBlockPosition(block, line, column).catch((error) =>
+				console.error("MDLX: could not open the editor:", error)
+			);
+		};
 	}
 
-	private async preProcessFile(file: TFile): Promise<void> {
-		if (this.globalContexts.has(file.path)) {
+	// Opens the note in the editor with the cursor at a line and column of
+	// the block's source, which starts on the line after its opening fence
+	private async revealBlockPosition(
+		block: RenderedBlock,
+		line: number,
+		column: number
+	): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(block.ctx.sourcePath);
+		if (!(file instanceof TFile) || block.position === undefined) {
 			return;
 		}
 
-		const content = await this.app.vault.read(file);
-		const lxBlockRegex = /```lx\n([\s\S]*?)```/g;
-		const matches = Array.from(content.matchAll(lxBlockRegex));
+		const noteBlocks = await this.collectNoteBlocks(
+			block.ctx,
+			block.el,
+			block.source
+		);
+		const noteBlock = noteBlocks[block.position];
+		if (!noteBlock) {
+			return;
+		}
 
-		if (matches.length === 0) {
+		const editor = await this.openInEditor(file);
+		if (!editor) {
 			return;
 		}
 
-		const globalContext = new ExecutionContext();
-		this.globalContexts.set(file.path, globalContext);
-
-		for (const match of matches) {
-			const source = match[1];
-			try {
-				const lexer = new Lexer(source);
-				const tokens = lexer.tokenize();
-				const parser = new Parser(tokens);
-				const ast = parser.parse();
-				const evaluator = new Evaluator(globalContext);
-
-				for (const statement of ast.statements) {
-					if (statement.type === "Variable" && statement.isGlobal) {
-						evaluator.evaluateStatement(statement);
-					} else if (
-						statement.type === "Function" &&
-						statement.isGlobal
-					) {
-						evaluator.evaluateStatement(statement);
-					}
-				}
-			} catch (error) {
-				console.warn("MDLX pre-processing error:", error);
+		const editorLine = noteBlock.lineStart + line;
+		const indent = getSourceLineIndent(
+			noteBlock,
+			line,
+			editor.getLine(editorLine)
+		);
+		const cursor = { line: editorLine, ch: indent + column - 1 };
+
+		editor.setCursor(cursor);
+		editor.scrollIntoView({ from: cursor, to: cursor }, true);
+		editor.focus();
+	}
+
+	private async openInEditor(file: TFile): Promise<Editor | null> {
+		const leaf =
+			this.app.workspace
+				.getLeavesOfType("markdown")
+				.find(
+					(leaf) =>
+						leaf.view instanceof MarkdownView &&
+						leaf.view.file?.path === file.path
+				) ?? this.app.workspace.getLeaf(false);
+
+		await leaf.openFile(file, { active: true, state: { mode: "source" } });
+		return leaf.view instanceof MarkdownView ? leaf.view.editor : null;
+	}
+
+	private async collectNoteBlocks(
+		ctx: MarkdownPostProcessorContext,
+		el: HTMLElement,
+		source: string
+	): Promise<NoteBlock[]> {
+		// Section info of an embedded or hovered block can describe the host
+		// note, so it is only trusted when its section holds the block
+		const info = ctx.getSectionInfo(el);
+		if (info) {
+			const blocks = scanLxBlocks(info.text);
+			if (findNoteBlocks(blocks, source, info, false).length > 0) {
+				return blocks;
 			}
 		}
+
+		const file = this.app.vault.getAbstractFileByPath(ctx.sourcePath);
+		return file instanceof TFile ? this.readNoteBlocks(file) : [];
+	}
+
+	private async readNoteBlocks(file: TFile): Promise<NoteBlock[]> {
+		return scanLxBlocks(await this.readLiveText(file));
+	}
+
+	// Prefers the buffer of an open editor so unsaved edits are included
+	private async readLiveText(file: TFile): Promise<string> {
+		for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+			const view = leaf.view;
+			if (view instanceof MarkdownView && view.file?.path === file.path) {
+				return view.editor.getValue();
+			}
+		}
+
+		return this.app.vault.cachedRead(file);
+	}
+
+	// Returns the globals whose values changed. A note is only recompiled when
+	// the source of one of its blocks differs from the last compile. Isolated
+	// blocks keep their place in the note but contribute no globals
+	private async compileNote(
+		contextKey: string,
+		sourcePath: string,
+		blocks: NoteBlock[]
+	): Promise<string[]> {
+		const sources = blocks.map((block) =>
+			block.options.isolated ? "" : block.source
+		);
+		const signature = JSON.stringify(sources);
+		if (this.compiledNotes.get(contextKey) === signature) {
+			return [];
+		}
+
+		this.compiledNotes.set(contextKey, signature);
+
+		try {
+			const modules = await this.moduleResolver.resolve(
+				sources,
+				sourcePath
+			);
+			const response = await this.runtime.compile(
+				contextKey,
+				sources,
+				modules,
+				this.getExecutionLimits()
+			);
+
+			if (response.error) {
+				console.warn(
+					"MDLX compile error:",
+					deserializeError(response).message
+				);
+			}
+
+			return response.dependencies?.changed ?? [];
+		} catch (error) {
+			this.compiledNotes.delete(contextKey);
+			if (error instanceof EvaluationCancelledError) {
+				return [];
+			}
+			throw error;
+		}
+	}
+
+	private async compileFile(file: TFile): Promise<void> {
+		if (this.compiledNotes.has(file.path) || file.extension !== "md") {
+			return;
+		}
+
+		const blocks = await this.readNoteBlocks(file);
+		if (blocks.length > 0) {
+			await this.compileNote(file.path, file.path, blocks);
+		}
+	}
+
+	private async evaluateAndRender(
+		contextKey: string,
+		source: string,
+		child: BlockRenderChild,
+		sourcePath: string,
+		position?: number,
+		options: BlockOptions = DEFAULT_BLOCK_OPTIONS,
+		navigate?: ErrorNavigator
+	): Promise<RuntimeResponse | null> {
+		const el = child.containerEl;
+		let response: RuntimeResponse | null = null;
+
+		try {
+			const modules = await this.moduleResolver.resolve(
+				[source],
+				sourcePath
+			);
+			response = await this.runtime.evaluate(
+				contextKey,
+				source,
+				position,
+				options,
+				modules,
+				this.getExecutionLimits(),
+				el
+			);
+
+			if (response.error) {
+				throw deserializeError(response);
+			}
+
+			await this.renderer.render(
+				response.results ?? [],
+				el,
+				sourcePath,
+				child.resetOutput(),
+				source,
+				options,
+				response.statementErrors,
+				navigate
+			);
+		} catch (error) {
+			if (error instanceof EvaluationCancelledError) {
+				return null;
+			}
+			console.error("MDLX processing error:", error);
+			child.resetOutput();
+			this.renderer.renderError(
+				error as Error,
+				el,
+				options,
+				source,
+				navigate
+			);
+		}
+
+		this.renderer.renderWarnings(
+			response?.warnings ?? [],
+			el,
+			source,
+			navigate
+		);
+
+		return response;
+	}
+
+	// Standalone .lx files are always evaluated as a whole, so each render
+	// runs isolated and embeds of the same file cannot share globals
+	async renderLxFile(
+		file: TFile,
+		source: string,
+		child: BlockRenderChild,
+		navigate?: ErrorNavigator
+	): Promise<void> {
+		this.runtime.cancel(child.containerEl);
+		child.containerEl.addClass("lx-container");
+		await this.evaluateAndRender(
+			file.path,
+			source,
+			child,
+			file.path,
+			undefined,
+			{ ...DEFAULT_BLOCK_OPTIONS, isolated: true },
+			navigate
+		);
+	}
+
+	private async processLxEmbed(
+		embed: HTMLElement,
+		ctx: MarkdownPostProcessorContext
+	): Promise<void> {
+		const src = embed.getAttribute("src");
+		if (!src) {
+			return;
+		}
+
+		const file = this.app.metadataCache.getFirstLinkpathDest(
+			getLinkpath(src),
+			ctx.sourcePath
+		);
+		if (!file || file.extension !== "lx") {
+			return;
+		}
+
+		embed.empty();
+		embed.addClass("lx-embed");
+		const el = embed.createDiv();
+		const child = new BlockRenderChild(el, () => this.runtime.cancel(el));
+		ctx.addChild(child);
+		const source = await this.app.vault.cachedRead(file);
+		await this.renderLxFile(file, source, child);
+	}
+
+	private registerLibraryEvents(): void {
+		const onLibraryChange = (file: TAbstractFile, oldPath?: string) => {
+			if (
+				this.isLibraryPath(file.path) ||
+				(oldPath && this.isLibraryPath(oldPath))
+			) {
+				this.scheduleLibraryReload();
+			}
+		};
+
+		this.registerEvent(this.app.vault.on("modify", onLibraryChange));
+		this.registerEvent(this.app.vault.on("create", onLibraryChange));
+		this.registerEvent(this.app.vault.on("delete", onLibraryChange));
+		this.registerEvent(this.app.vault.on("rename", onLibraryChange));
+	}
+
+	private isLibraryPath(path: string): boolean {
+		if (!this.settings.libraryFolder) {
+			return false;
+		}
+
+		const folder = normalizePath(this.settings.libraryFolder);
+		return path.startsWith(`${folder}/`) && path.endsWith(".lx");
+	}
+
+	private async loadLibrary(): Promise<void> {
+		const paths = this.app.vault
+			.getFiles()
+			.filter((file) => this.isLibraryPath(file.path))
+			.map((file) => file.path)
+			.sort();
+
+		const imports: Record<string, string> = {};
+		for (const path of paths) {
+			imports[path] = path;
+		}
+
+		try {
+			const modules = await this.moduleResolver.loadModules(paths);
+			const response = await this.runtime.loadLibrary(
+				paths,
+				{ imports, modules },
+				this.getExecutionLimits()
+			);
+
+			if (response.error) {
+				console.warn(
+					"MDLX library error:",
+					deserializeError(response).message
+				);
+			}
+		} catch (error) {
+			if (!(error instanceof EvaluationCancelledError)) {
+				throw error;
+			}
+		}
+	}
+
+	private reloadLibrary(): void {
+		this.loadLibrary()
+			.then(() => this.rerenderOpenNotes())
+			.catch((error) =>
+				console.error("MDLX: could not load the library:", error)
+			);
+	}
+
+	private rerenderOpenNotes(): void {
+		for (const contextKey of Array.from(this.renderInstances.keys())) {
+			this.forgetContext(contextKey);
+		}
+
+		for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+			const view = leaf.view;
+			if (!(view instanceof MarkdownView)) {
+				continue;
+			}
+
+			if (view.file) {
+				this.forgetContext(view.file.path);
+			}
+
+			view.previewMode.rerender(true);
+		}
+	}
+
+	// Drops parsed blocks, cached results and compiled modules, then renders
+	// every open note from scratch
+	clearCaches(): void {
+		this.runtime.clearCaches();
+		this.compiledNotes.clear();
+		this.rerenderOpenNotes();
+	}
+
+	private createRuntime(): RuntimeClient {
+		return new RuntimeClient(this.settings.evaluateInWorker, () =>
+			this.restoreRuntime()
+		);
+	}
+
+	// A replaced runtime starts empty. Compiling the library and the open
+	// notes again restores their globals, and rendered output is kept
+	private async restoreRuntime(): Promise<void> {
+		this.compiledNotes.clear();
+		await this.loadLibrary();
+
+		for (const [contextKey, instance] of Array.from(this.renderInstances)) {
+			const block = instance.blocks.find(
+				(other) => !this.isStaleBlock(other)
+			);
+			if (block) {
+				await this.compileNote(
+					contextKey,
+					instance.sourcePath,
+					await this.collectNoteBlocks(
+						block.ctx,
+						block.el,
+						block.source
+					)
+				);
+			}
+		}
+
+		for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+			const view = leaf.view;
+			if (view instanceof MarkdownView && view.file) {
+				await this.compileFile(view.file);
+			}
+		}
+	}
+
+	// The registered array is shared with the workspace, so settings can
+	// switch extensions on and off without reloading the plugin
+	updateEditorExtensions(): void {
+		this.editorExtensions.length = 0;
+		if (this.settings.showEditorDiagnostics) {
+			this.editorExtensions.push(lxDiagnostics(this));
+		}
+		this.app.workspace.updateOptions();
+	}
+
+	restartRuntime(): void {
+		this.runtime.terminate();
+		this.compiledNotes.clear();
+		this.processingQueues.clear();
+		this.runtime = this.createRuntime();
+		this.reloadLibrary();
 	}
 
 	onunload() {
+		this.runtime?.terminate();
 		this.processingQueues.clear();
-		this.globalContexts.clear();
-		this.processedBlocks.clear();
+		this.compiledNotes.clear();
+		this.renderInstances.clear();
 		this.styleManager?.cleanup();
 		removeLxMode();
 	}
 
-	getGlobalContext(filePath: string): ExecutionContext | undefined {
-		return this.globalContexts.get(filePath);
+	// Prefers the most recent rendering of the note, which reflects unsaved
+	// edits, over the context compiled when the note was opened
+	getGlobalNames(filePath: string): GlobalNames | undefined {
+		const contextKeys = Array.from(this.renderInstances)
+			.filter(([, instance]) => instance.sourcePath === filePath)
+			.map(([contextKey]) => contextKey);
+
+		for (const contextKey of contextKeys.reverse()) {
+			const names = this.runtime.getGlobalNames(contextKey);
+			if (names) {
+				return names;
+			}
+		}
+
+		return this.runtime.getGlobalNames(filePath);
+	}
+
+	getLibraryNames(): GlobalNames | undefined {
+		return this.runtime.getGlobalNames(LIBRARY_CONTEXT_KEY);
+	}
+
+	getExecutionLimits(): ExecutionLimits {
+		return {
+			maxSteps: this.settings.maxExecutionSteps,
+			maxCallDepth: this.settings.maxCallDepth,
+			timeoutMs: this.settings.executionTimeoutMs,
+		};
 	}
 
 	async loadSettings() {
@@ -203,3 +896,7 @@ export default class MDLXPlugin extends Plugin {
 		await this.saveData(this.settings);
 	}
 }
+
+function getInstanceKey(sourcePath: string, docId: string): string {
+	return `${sourcePath}#${docId}`;
+}
@@ -0,0 +1,368 @@
+import {
+	ASTNode,
+	AnonymousFunctionNode,
+	BlockNode,
+	FunctionCallNode,
+	FunctionNode,
+	LambdaNode,
+	ProgramNode,
+	StatementNode,
+	VariableNode,
+} from "./types/ast.types";
+import { AnalysisWarning, WarningCode } from "./types/analyzer.types";
+import { GlobalNames } from "./types/runtime.types";
+import { UTILITY_CLASSES } from "./utilityClasses";
+
+interface LocalVariable {
+	node?: VariableNode;
+	used: boolean;
+}
+
+// Only function bodies get their own context at runtime; blocks, branches
+// and loops write to the scope around them. Bodies are visited once the
+// scope around them is complete, as they can run after any of its statements
+interface Scope {
+	parent?: Scope;
+	variables: Map<string, LocalVariable>;
+	functions: Array<FunctionNode | LambdaNode>;
+}
+
+// Finds likely mistakes without running the program. Names are resolved the
+// way the evaluator resolves them: a plain assignment to a name that is
+// already global writes the global, and so does a parameter or loop variable
+// with that name
+export class Analyzer {
+	private globals: Set<string>;
+	private arities: Map<string, number | null> = new Map();
+	private scope: Scope = { variables: new Map(), functions: [] };
+	private warnings: AnalysisWarning[] = [];
+
+	constructor(globals?: GlobalNames) {
+		this.globals = new Set([
+			...(globals?.variables ?? []),
+			...(globals?.functions ?? []),
+		]);
+	}
+
+	analyze(program: ProgramNode): AnalysisWarning[] {
+		this.warnings = [];
+		this.scope = { variables: new Map(), functions: [] };
+		this.collectDeclarations(program);
+
+		this.visit(program);
+		this.closeScope(this.scope);
+
+		return this.warnings.sort(
+			(a, b) => a.line - b.line || a.column - b.column
+		);
+	}
+
+	// Functions are hoisted and globals can be declared after their first
+	// use, so both are known before the walk starts
+	private collectDeclarations(node: AnalyzedNode): void {
+		if (node.type === "Function") {
+			const arity = this.arities.get(node.name);
+			this.arities.set(
+				node.name,
+				arity === undefined || arity === node.params.length
+					? node.params.length
+					: null
+			);
+			if (node.isGlobal) {
+				this.globals.add(node.name);
+			}
+		} else if (node.type === "Variable" && node.isGlobal) {
+			this.globals.add(node.name);
+		}
+
+		childNodes(node).forEach((child) => this.collectDeclarations(child));
+	}
+
+	private visit(node: AnalyzedNode): void {
+		statementLists(node).forEach((list) => this.checkReachability(list));
+
+		switch (node.type) {
+			case "Variable":
+				this.visit(node.value);
+				this.declareVariable(node);
+				return;
+			case "Function":
+				if (!node.isGlobal && this.globals.has(node.name)) {
+					this.warn(
+						"shadowed-global",
+						`${node.name} shadows the global function of the same name`,
+						node,
+						node.name.length
+					);
+				}
+				this.visitFunction(node);
+				return;
+			case "Lambda":
+				this.visitFunction(node);
+				return;
+			case "ForEach":
+				if (node.indexName) {
+					this.declareBinding(node.indexName, node);
+				}
+				this.declareBinding(node.itemName, node);
+				break;
+			case "Identifier":
+				this.markUsed(node.name);
+				return;
+			case "FunctionCall":
+				this.checkCall(node);
+				break;
+			case "AnonymousFunction":
+			case "Block":
+				this.checkStyles(node);
+				break;
+		}
+
+		childNodes(node).forEach((child) => this.visit(child));
+	}
+
+	private visitFunction(node: FunctionNode | LambdaNode): void {
+		this.checkStyles(node);
+		this.scope.functions.push(node);
+	}
+
+	private closeScope(scope: Scope): void {
+		for (const node of scope.functions) {
+			this.scope = { parent: scope, variables: new Map(), functions: [] };
+			this.scope.variables.set("@content", { used: true });
+			for (const param of node.params) {
+				this.declareBinding(param, node);
+			}
+
+			node.body.forEach((statement) => this.visit(statement));
+			this.closeScope(this.scope);
+		}
+
+		this.scope = scope;
+		this.reportUnused(scope);
+	}
+
+	private declareVariable(node: VariableNode): void {
+		if (node.isGlobal) {
+			return;
+		}
+
+		// Assigning a global's name updates the global
+		if (this.globals.has(node.name)) {
+			return;
+		}
+
+		if (!this.scope.variables.has(node.name)) {
+			this.scope.variables.set(node.name, { node, used: false });
+		}
+	}
+
+	// Parameters and loop variables are written like any other variable, so a
+	// global with the same name is overwritten rather than shadowed
+	private declareBinding(name: string, node: ASTNode): void {
+		if (this.globals.has(name)) {
+			this.warn(
+				"shadowed-global",
+				`${name} shadows a global of the same name and overwrites it`,
+				node
+			);
+			return;
+		}
+
+		this.scope.variables.set(name, { used: true });
+	}
+
+	private markUsed(name: string): void {
+		for (let scope: Scope | undefined = this.scope; scope; ) {
+			const variable = scope.variables.get(name);
+			if (variable) {
+				variable.used = true;
+				return;
+			}
+			scope = scope.parent;
+		}
+	}
+
+	private reportUnused(scope: Scope): void {
+		for (const [name, variable] of scope.variables) {
+			if (variable.node && !variable.used && !name.startsWith("@_")) {
+				this.warn(
+					"unused-variable",
+					`${name} is assigned but never used`,
+					variable.node,
+					name.length
+				);
+			}
+		}
+	}
+
+	// Missing arguments fail at runtime and extra ones are silently dropped,
+	// except for the single content argument of a function without parameters
+	private checkCall(node: FunctionCallNode): void {
+		this.markUsed(node.name);
+
+		const expected = this.arities.get(node.name);
+		if (expected === undefined || expected === null) {
+			return;
+		}
+
+		const got = node.args.length;
+		if (
+			got < expected ||
+			(got > expected && !(expected === 0 && got === 1))
+		) {
+			this.warn(
+				"argument-count",
+				`${node.name}() expects ${expected} argument${
+					expected === 1 ? "" : "s"
+				}, got ${got}`,
+				node
+			);
+		}
+	}
+
+	private checkStyles(
+		node: FunctionNode | LambdaNode | AnonymousFunctionNode | BlockNode
+	): void {
+		for (const style of node.styles) {
+			if (!UTILITY_CLASSES[style]) {
+				this.warn(
+					"unknown-style",
+					`Unknown utility class: ${style}`,
+					node,
+					node.type === "Function" ? node.name.length : undefined
+				);
+			}
+		}
+	}
+
+	private checkReachability(statements: StatementNode[]): void {
+		const exit = statements.findIndex(
+			(statement) =>
+				statement.type === "Return" ||
+				statement.type === "Break" ||
+				statement.type === "Continue"
+		);
+		if (exit === -1 || exit === statements.length - 1) {
+			return;
+		}
+
+		const keyword =
+			statements[exit].type === "Return"
+				? "=>"
+				: statements[exit].type === "Break"
+				? "break"
+				: "continue";
+		const first = statements[exit + 1];
+		const last = statements[statements.length - 1];
+
+		this.warnings.push({
+			code: "unreachable-code",
+			message: `Unreachable code after '${keyword}'`,
+			line: first.line,
+			column: first.column,
+			start: first.start,
+			end: last.end,
+		});
+	}
+
+	// Narrows the underline to the first `length` characters of the node
+	private warn(
+		code: WarningCode,
+		message: string,
+		node: ASTNode,
+		length?: number
+	): void {
+		this.warnings.push({
+			code,
+			message,
+			line: node.line,
+			column: node.column,
+			start: node.start,
+			end:
+				length !== undefined && node.start !== undefined
+					? node.start + length
+					: node.end,
+		});
+	}
+}
+
+type AnalyzedNode = ProgramNode | StatementNode;
+
+function statementLists(node: AnalyzedNode): StatementNode[][] {
+	switch (node.type) {
+		case "Program":
+			return [node.statements];
+		case "Function":
+		case "Lambda":
+		case "Block":
+		case "For":
+		case "ForEach":
+		case "While":
+			return [node.body];
+		case "If":
+			return [
+				node.then,
+				...node.elseIfs.map((elseIf) => elseIf.then),
+				...(node.else ? [node.else] : []),
+			];
+		default:
+			return [];
+	}
+}
+
+function childNodes(node: AnalyzedNode): AnalyzedNode[] {
+	switch (node.type) {
+		case "Program":
+			return node.statements;
+		case "TemplateString": {
+			const children: AnalyzedNode[] = [];
+			for (const part of node.parts) {
+				if (part.type === "expression") {
+					children.push(part.expr);
+				}
+			}
+			return children;
+		}
+		case "Array":
+			return node.elements;
+		case "Map":
+			return node.entries.map((entry) => entry.value);
+		case "ArrayIndex":
+			return [node.array, node.index];
+		case "ArrayIndexAssignment":
+			return [node.array, node.index, node.value];
+		case "Concatenation":
+			return node.parts;
+		case "BinaryOp":
+			return [node.left, node.right];
+		case "UnaryOp":
+			return [node.operand];
+		case "Variable":
+			return [node.value];
+		case "Function":
+		case "Lambda":
+		case "Block":
+			return node.body;
+		case "FunctionCall":
+		case "AnonymousFunction":
+			return node.args;
+		case "If": {
+			const children: AnalyzedNode[] = [node.condition, ...node.then];
+			for (const elseIf of node.elseIfs) {
+				children.push(elseIf.condition, ...elseIf.then);
+			}
+			return children.concat(node.else ?? []);
+		}
+		case "For":
+			return [node.init, node.condition, node.update, ...node.body];
+		case "ForEach":
+			return [node.iterable, ...node.body];
+		case "While":
+			return [node.condition, ...node.body];
+		case "Return":
+			return node.value ? [node.value] : [];
+		default:
+			return [];
+	}
+}
@@ -0,0 +1,59 @@
+export interface BlockOptions {
+	isolated: boolean;
+	nocache: boolean;
+	literal: boolean;
+	sideBySide: boolean;
+	title?: string;
+}
+
+export const DEFAULT_BLOCK_OPTIONS: BlockOptions = {
+	isolated: false,
+	nocache: false,
+	literal: false,
+	sideBySide: false,
+};
+
+const OPTION_PATTERN = /([\w-]+)(?:=("(?:[^"\\]|\\.)*"|'[^']*'|\S+))?/g;
+
+// Parses the part of a fence's info string after the `lx` language, e.g.
+// `isolated nocache title="Summary"`. Unknown options are ignored
+export function parseBlockOptions(info: string): BlockOptions {
+	const options: BlockOptions = { ...DEFAULT_BLOCK_OPTIONS };
+
+	for (const match of Array.from(info.matchAll(OPTION_PATTERN))) {
+		const name = match[1].toLowerCase();
+		const value = match[2] !== undefined ? unquote(match[2]) : undefined;
+
+		switch (name) {
+			case "isolated":
+				options.isolated = true;
+				break;
+			case "nocache":
+				options.nocache = true;
+				break;
+			case "literal":
+				options.literal = true;
+				break;
+			case "side-by-side":
+				options.sideBySide = true;
+				break;
+			case "title":
+				options.title = value;
+				break;
+		}
+	}
+
+	return options;
+}
+
+function unquote(value: string): string {
+	if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+		return value.slice(1, -1).replace(/\\(.)/g, "$1");
+	}
+
+	if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+		return value.slice(1, -1);
+	}
+
+	return value;
+}
@@ -0,0 +1,26 @@
+import { Component, MarkdownRenderChild } from "obsidian";
+
+// Owns everything a rendered block allocates (markdown components, generated
+// styles, timers, listeners), so it is all released when Obsidian removes the
+// block or closes the note
+export class BlockRenderChild extends MarkdownRenderChild {
+	private output: Component | null = null;
+
+	constructor(containerEl: HTMLElement, private onRelease?: () => void) {
+		super(containerEl);
+	}
+
+	// Each render replaces the resources of the previous one
+	resetOutput(): Component {
+		if (this.output) {
+			this.removeChild(this.output);
+		}
+		this.output = this.addChild(new Component());
+		return this.output;
+	}
+
+	onunload(): void {
+		this.output = null;
+		this.onRelease?.();
+	}
+}
@@ -0,0 +1,64 @@
+export interface CodeLocation {
+	line: number;
+	column: number;
+	start?: number;
+	end?: number;
+}
+
+export interface ResolvedLocation {
+	line: number;
+	column: number;
+	length: number;
+}
+
+// Offsets are exact, while the line and column of some errors point at an
+// operator inside the failing expression, so the span wins when there is one
+export function resolveLocation(
+	source: string,
+	location: CodeLocation
+): ResolvedLocation {
+	if (
+		location.start === undefined ||
+		location.end === undefined ||
+		location.start > source.length
+	) {
+		return { line: location.line, column: location.column, length: 1 };
+	}
+
+	const before = source.slice(0, location.start).split(/\r\n|\r|\n/);
+	return {
+		line: before.length,
+		column: before[before.length - 1].length + 1,
+		length: location.end - location.start,
+	};
+}
+
+// Renders the source line an error points at with a caret underline, e.g.
+//
+//   3 | @total = @price * @qty
+//     |          ^^^^^^
+//
+// The underline covers the location's span when it has one, and a single
+// character at its line and column otherwise
+export function formatCodeFrame(
+	source: string,
+	location: CodeLocation
+): string | null {
+	const { line, column, length } = resolveLocation(source, location);
+
+	const lines = source.split(/\r\n|\r|\n/);
+	if (line < 1 || line > lines.length || column < 1) {
+		return null;
+	}
+
+	const text = lines[line - 1];
+	const gutter = String(line);
+	// Keep tabs so the caret lines up with the source as displayed
+	const padding = text.slice(0, column - 1).replace(/[^\t]/g, " ");
+	const width = Math.max(1, Math.min(length, text.length - (column - 1)));
+
+	return [
+		`${gutter} | ${text}`,
+		`${" ".repeat(gutter.length)} | ${padding}${"^".repeat(width)}`,
+	].join("\n");
+}
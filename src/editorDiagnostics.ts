@@ -0,0 +1,288 @@
+import { Extension, StateEffect, StateField, Text } from "@codemirror/state";
+import {
+	Decoration,
+	DecorationSet,
+	EditorView,
+	ViewPlugin,
+	ViewUpdate,
+	hoverTooltip,
+} from "@codemirror/view";
+import { editorInfoField } from "obsidian";
+import { Analyzer } from "./analyzer";
+import { CodeLocation, resolveLocation } from "./codeFrame";
+import { NoteBlock, getSourceLineIndent, scanLxBlocks } from "./noteBlocks";
+import { ParsedProgram, parseProgram } from "./parser";
+import { GlobalNames } from "./types/runtime.types";
+import MDLXPlugin from "../main";
+
+const CHECK_DELAY_MS = 500;
+
+interface EditorDiagnostic {
+	from: number;
+	to: number;
+	severity: "error" | "warning";
+	message: string;
+}
+
+interface DiagnosticsState {
+	diagnostics: EditorDiagnostic[];
+	decorations: DecorationSet;
+}
+
+const setDiagnostics = StateEffect.define<EditorDiagnostic[]>();
+
+const diagnosticsField = StateField.define<DiagnosticsState>({
+	create: () => ({ diagnostics: [], decorations: Decoration.none }),
+
+	update(state, transaction) {
+		for (const effect of transaction.effects) {
+			if (effect.is(setDiagnostics)) {
+				return {
+					diagnostics: effect.value,
+					decorations: buildDecorations(effect.value),
+				};
+			}
+		}
+
+		if (!transaction.docChanged) {
+			return state;
+		}
+
+		// Positions follow the edits until the next check replaces them
+		const { changes } = transaction;
+		return {
+			diagnostics: state.diagnostics.map((diagnostic) => ({
+				...diagnostic,
+				from: changes.mapPos(diagnostic.from),
+				to: changes.mapPos(diagnostic.to),
+			})),
+			decorations: state.decorations.map(changes),
+		};
+	},
+
+	provide: (field) =>
+		EditorView.decorations.from(field, (state) => state.decorations),
+});
+
+// Checks every lx block of the note a moment after the last edit. Blocks are
+// parsed and analyzed the same way the runtime does before evaluating them,
+// but nothing is evaluated
+class DiagnosticsChecker {
+	private timer: number | null = null;
+
+	constructor(private view: EditorView, private plugin: MDLXPlugin) {
+		this.schedule();
+	}
+
+	update(update: ViewUpdate) {
+		if (update.docChanged) {
+			this.schedule();
+		}
+	}
+
+	destroy() {
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+		}
+	}
+
+	private schedule(): void {
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+		}
+
+		this.timer = window.setTimeout(() => {
+			this.timer = null;
+			this.view.dispatch({ effects: setDiagnostics.of(this.check()) });
+		}, CHECK_DELAY_MS);
+	}
+
+	private check(): EditorDiagnostic[] {
+		const doc = this.view.state.doc;
+		const blocks = scanLxBlocks(doc.toString()).map((block) => ({
+			block,
+			parsed: parseProgram(block.source),
+		}));
+		const globals = this.collectGlobals(blocks);
+		const diagnostics: EditorDiagnostic[] = [];
+
+		for (const { block, parsed } of blocks) {
+			// Like the runtime, only analyze blocks that parsed cleanly
+			if (parsed.diagnostics.length > 0) {
+				for (const error of parsed.diagnostics) {
+					pushDiagnostic(diagnostics, doc, block, error, "error");
+				}
+				continue;
+			}
+
+			const warnings = new Analyzer(
+				block.options.isolated ? undefined : globals
+			).analyze(parsed.program);
+			for (const warning of warnings) {
+				pushDiagnostic(diagnostics, doc, block, warning, "warning");
+			}
+		}
+
+		return diagnostics;
+	}
+
+	// The note's globals as last evaluated, plus the ones its blocks declare
+	// so that a block is checked correctly before the note has been rendered
+	private collectGlobals(
+		blocks: Array<{ block: NoteBlock; parsed: ParsedProgram }>
+	): GlobalNames {
+		const filePath = this.view.state.field(editorInfoField, false)?.file
+			?.path;
+		const names = filePath
+			? this.plugin.getGlobalNames(filePath)
+			: undefined;
+		const variables = new Set(names?.variables ?? []);
+		const functions = new Set(names?.functions ?? []);
+
+		for (const { block, parsed } of blocks) {
+			if (block.options.isolated) {
+				continue;
+			}
+
+			for (const statement of parsed.program.statements) {
+				if (statement.type === "Variable" && statement.isGlobal) {
+					variables.add(statement.name);
+				} else if (
+					statement.type === "Function" &&
+					statement.isGlobal
+				) {
+					functions.add(statement.name);
+				}
+			}
+		}
+
+		return {
+			variables: Array.from(variables),
+			functions: Array.from(functions),
+		};
+	}
+}
+
+const diagnosticsTooltip = hoverTooltip((view, pos) => {
+	const found = view.state
+		.field(diagnosticsField)
+		.diagnostics.filter(
+			(diagnostic) => diagnostic.from <= pos && pos <= diagnostic.to
+		);
+	if (found.length === 0) {
+		return null;
+	}
+
+	return {
+		pos: Math.min(...found.map((diagnostic) => diagnostic.from)),
+		end: Math.max(...found.map((diagnostic) => diagnostic.to)),
+		above: true,
+		create: () => {
+			const dom = createDiv({ cls: "lx-diagnostics-tooltip" });
+			for (const diagnostic of found) {
+				dom.createDiv({
+					cls: `lx-diagnostic-message-${diagnostic.severity}`,
+					text: diagnostic.message,
+				});
+			}
+			return { dom };
+		},
+	};
+});
+
+export function lxDiagnostics(plugin: MDLXPlugin): Extension {
+	return [
+		diagnosticsField,
+		ViewPlugin.define((view) => new DiagnosticsChecker(view, plugin)),
+		diagnosticsTooltip,
+	];
+}
+
+function pushDiagnostic(
+	diagnostics: EditorDiagnostic[],
+	doc: Text,
+	block: NoteBlock,
+	location: Partial<CodeLocation> & { message: string },
+	severity: "error" | "warning"
+): void {
+	if (location.line === undefined || location.column === undefined) {
+		return;
+	}
+
+	const { line, column, length } = resolveLocation(block.source, {
+		line: location.line,
+		column: location.column,
+		start: location.start,
+		end: location.end,
+	});
+	const from = toDocPosition(doc, block, line, column);
+	if (from === null) {
+		return;
+	}
+
+	// Spans can cross lines, whose prefixes are not part of the source
+	let to = Math.min(from + length, doc.lineAt(from).to);
+	if (location.end !== undefined) {
+		const end = resolveLocation(block.source, {
+			line,
+			column,
+			start: location.end,
+			end: location.end,
+		});
+		to = toDocPosition(doc, block, end.line, end.column) ?? to;
+	}
+
+	diagnostics.push({
+		...markableRange(doc, from, Math.max(to, from)),
+		severity,
+		message: location.message,
+	});
+}
+
+// Empty ranges cannot be marked, e.g. a missing ')' at the end of a line, so
+// they cover the character next to them instead
+function markableRange(
+	doc: Text,
+	from: number,
+	to: number
+): { from: number; to: number } {
+	if (to > from) {
+		return { from, to };
+	}
+
+	const line = doc.lineAt(from);
+	if (from < line.to) {
+		return { from, to: from + 1 };
+	}
+	return line.from < from ? { from: from - 1, to } : { from, to };
+}
+
+function toDocPosition(
+	doc: Text,
+	block: NoteBlock,
+	line: number,
+	column: number
+): number | null {
+	// Source lines start on the line after the opening fence
+	const number = block.lineStart + 1 + line;
+	if (line < 1 || number > doc.lines) {
+		return null;
+	}
+
+	const docLine = doc.line(number);
+	const indent = getSourceLineIndent(block, line, docLine.text);
+	return Math.min(docLine.from + indent + column - 1, docLine.to);
+}
+
+function buildDecorations(diagnostics: EditorDiagnostic[]): DecorationSet {
+	return Decoration.set(
+		diagnostics
+			.filter((diagnostic) => diagnostic.to > diagnostic.from)
+			.map((diagnostic) =>
+				Decoration.mark({
+					class: `lx-diagnostic lx-diagnostic-${diagnostic.severity}`,
+				}).range(diagnostic.from, diagnostic.to)
+			),
+		true
+	);
+}
@@ -0,0 +1,9 @@
+import { MDLXRuntime } from "./runtime";
+import { RuntimeRequest } from "./types/runtime.types";
+
+const worker = self as unknown as Worker;
+const runtime = new MDLXRuntime();
+
+worker.onmessage = (event: MessageEvent<RuntimeRequest>) => {
+	worker.postMessage(runtime.handle(event.data));
+};
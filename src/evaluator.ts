@@ -1,4 +1,5 @@
 import {
+	ASTNode,
 	ProgramNode,
 	StatementNode,
 	ExpressionNode,
@@ -6,9 +7,14 @@ import {
 	FunctionNode,
 	IfNode,
 	ForNode,
+	ForEachNode,
 	WhileNode,
 	ReturnNode,
+	BreakNode,
+	ContinueNode,
+	ImportNode,
 	FunctionCallNode,
+	LambdaNode,
 	AnonymousFunctionNode,
 	BlockNode,
 	StringNode,
@@ -16,6 +22,7 @@ import {
 	NumberNode,
 	BooleanNode,
 	ArrayNode,
+	MapNode,
 	ArrayIndexNode,
 	ArrayIndexAssignmentNode,
 	IdentifierNode,
@@ -23,12 +30,91 @@ import {
 	BinaryOpNode,
 	UnaryOpNode,
 } from "./types/ast.types";
-import { isStdLibFunction, getStdLibFunction } from "./stdlib";
+import { isStdLibFunction, getStdLibFunction, StdLibFunction } from "./stdlib";
+import { SourceSpan } from "./types/lexer.types";
 
 export class RuntimeError extends Error {
-	constructor(message: string, public line: number, public column: number) {
+	start?: number;
+	end?: number;
+
+	constructor(
+		message: string,
+		public line: number,
+		public column: number,
+		span?: Partial<SourceSpan>
+	) {
 		super(`Runtime error at line ${line}, column ${column}: ${message}`);
 		this.name = "RuntimeError";
+		this.start = span?.start;
+		this.end = span?.end;
+	}
+}
+
+// Raised when a block runs out of steps or time. Nothing after it in the block
+// can run either
+export class ExecutionLimitError extends RuntimeError {}
+
+export interface ExecutionLimits {
+	maxSteps: number;
+	maxCallDepth: number;
+	timeoutMs: number;
+}
+
+export const DEFAULT_EXECUTION_LIMITS: ExecutionLimits = {
+	maxSteps: 1000000,
+	maxCallDepth: 200,
+	timeoutMs: 2000,
+};
+
+export class ExecutionBudget {
+	private steps = 0;
+	private callDepth = 0;
+	private startTime = Date.now();
+
+	constructor(private limits: ExecutionLimits = DEFAULT_EXECUTION_LIMITS) {}
+
+	step(line: number, column: number): void {
+		this.steps++;
+
+		if (this.limits.maxSteps > 0 && this.steps > this.limits.maxSteps) {
+			throw new ExecutionLimitError(
+				`Execution step limit exceeded (${this.limits.maxSteps} steps), possible infinite loop`,
+				line,
+				column
+			);
+		}
+
+		if (
+			this.limits.timeoutMs > 0 &&
+			this.steps % 1000 === 0 &&
+			Date.now() - this.startTime > this.limits.timeoutMs
+		) {
+			throw new ExecutionLimitError(
+				`Execution timed out after ${this.limits.timeoutMs}ms`,
+				line,
+				column
+			);
+		}
+	}
+
+	enterCall(line: number, column: number): void {
+		this.callDepth++;
+
+		if (
+			this.limits.maxCallDepth > 0 &&
+			this.callDepth > this.limits.maxCallDepth
+		) {
+			this.callDepth--;
+			throw new RuntimeError(
+				`Maximum call depth exceeded (${this.limits.maxCallDepth}), possible infinite recursion`,
+				line,
+				column
+			);
+		}
+	}
+
+	exitCall(): void {
+		this.callDepth--;
 	}
 }
 
@@ -36,8 +122,20 @@ export class ReturnValue {
 	constructor(public value?: EvaluatedValue) {}
 }
 
+export type MapValue = Map<string, EvaluatedValue>;
+
+export class BreakSignal {}
+
+export class ContinueSignal {}
+
 export interface EvaluatedValue {
-	value: string | number | boolean | EvaluatedValue[];
+	value:
+		| string
+		| number
+		| boolean
+		| EvaluatedValue[]
+		| MapValue
+		| FunctionValue;
 	isMarkdown: boolean;
 	styles?: string[];
 	children?: EvaluatedValue[];
@@ -47,6 +145,31 @@ export interface FunctionDefinition {
 	params: string[];
 	styles: string[];
 	body: StatementNode[];
+	closure?: ExecutionContext;
+}
+
+export class FunctionValue {
+	constructor(
+		public name: string | null,
+		public definition?: FunctionDefinition,
+		public native?: StdLibFunction
+	) {}
+
+	toString(): string {
+		return this.name ? `<function ${this.name}>` : "<lambda>";
+	}
+}
+
+export interface GlobalDeclaration {
+	block: number;
+	line: number;
+	column: number;
+}
+
+export class GlobalAccessTracker {
+	reads: Set<string> = new Set();
+	previousVariables: Map<string, EvaluatedValue | undefined> = new Map();
+	previousFunctions: Map<string, FunctionDefinition | undefined> = new Map();
 }
 
 export class ExecutionContext {
@@ -54,6 +177,8 @@ export class ExecutionContext {
 	private functions: Map<string, FunctionDefinition> = new Map();
 	private parent?: ExecutionContext;
 	private globalContext?: ExecutionContext;
+	private tracker?: GlobalAccessTracker;
+	private declarations: Map<string, GlobalDeclaration> = new Map();
 
 	constructor(parent?: ExecutionContext, globalContext?: ExecutionContext) {
 		this.parent = parent;
@@ -68,30 +193,94 @@ export class ExecutionContext {
 		return this.globalContext;
 	}
 
+	setTracker(tracker?: GlobalAccessTracker): void {
+		this.tracker = tracker;
+	}
+
+	setDeclarations(declarations: Map<string, GlobalDeclaration>): void {
+		this.declarations = declarations;
+	}
+
+	getDeclaration(name: string): GlobalDeclaration | undefined {
+		return this.declarations.get(name);
+	}
+
+	private writeVariable(name: string, value: EvaluatedValue): void {
+		if (this.tracker && !this.tracker.previousVariables.has(name)) {
+			this.tracker.previousVariables.set(name, this.variables.get(name));
+		}
+		this.variables.set(name, value);
+	}
+
+	private writeFunction(name: string, func: FunctionDefinition): void {
+		if (this.tracker && !this.tracker.previousFunctions.has(name)) {
+			this.tracker.previousFunctions.set(name, this.functions.get(name));
+		}
+		this.functions.set(name, func);
+	}
+
+	// Changes made in place bypass writeVariable, so the owning context keeps
+	// a copy of the value from before the first change
+	markVariableChanged(name: string): void {
+		if (this.variables.has(name)) {
+			const value = this.variables.get(name);
+			if (this.tracker && !this.tracker.previousVariables.has(name)) {
+				this.tracker.previousVariables.set(
+					name,
+					value && copyValue(value)
+				);
+			}
+			return;
+		}
+
+		if (this.globalContext?.variables.has(name)) {
+			this.globalContext.markVariableChanged(name);
+			return;
+		}
+
+		this.parent?.markVariableChanged(name);
+	}
+
+	removeVariable(name: string): void {
+		if (this.tracker && !this.tracker.previousVariables.has(name)) {
+			this.tracker.previousVariables.set(name, this.variables.get(name));
+		}
+		this.variables.delete(name);
+	}
+
+	removeFunction(name: string): void {
+		if (this.tracker && !this.tracker.previousFunctions.has(name)) {
+			this.tracker.previousFunctions.set(name, this.functions.get(name));
+		}
+		this.functions.delete(name);
+	}
+
 	setVariable(
 		name: string,
 		value: EvaluatedValue,
 		isGlobal: boolean = false
 	): void {
 		if (isGlobal && this.globalContext) {
-			this.globalContext.variables.set(name, value);
+			this.globalContext.writeVariable(name, value);
 		} else {
 			if (this.globalContext && this.globalContext.variables.has(name)) {
-				this.globalContext.variables.set(name, value);
+				this.globalContext.writeVariable(name, value);
 			} else {
-				this.variables.set(name, value);
+				this.writeVariable(name, value);
 			}
 		}
 	}
 
 	getVariable(name: string): EvaluatedValue | undefined {
+		this.tracker?.reads.add(name);
+
 		const value = this.variables.get(name);
 		if (value !== undefined) {
 			return value;
 		}
 
 		if (this.globalContext) {
-			const globalValue = this.globalContext.variables.get(name);
+			const globalValue = this.globalContext.getVariable(name);
 			if (globalValue !== undefined) {
 				return globalValue;
 			}
@@ -103,7 +292,7 @@ export class ExecutionContext {
 	hasVariable(name: string): boolean {
 		return (
 			this.variables.has(name) ||
-			(this.globalContext?.variables.has(name) ?? false) ||
+			(this.globalContext?.hasVariable(name) ?? false) ||
 			(this.parent?.hasVariable(name) ?? false)
 		);
 	}
@@ -118,20 +307,22 @@ export class ExecutionContext {
 		isGlobal: boolean = false
 	): void {
 		if (isGlobal && this.globalContext) {
-			this.globalContext.functions.set(name, func);
+			this.globalContext.writeFunction(name, func);
 		} else {
-			this.functions.set(name, func);
+			this.writeFunction(name, func);
 		}
 	}
 
 	getFunction(name: string): FunctionDefinition | undefined {
+		this.tracker?.reads.add(name);
+
 		const func = this.functions.get(name);
 		if (func !== undefined) {
 			return func;
 		}
 
 		if (this.globalContext) {
-			const globalFunc = this.globalContext.functions.get(name);
+			const globalFunc = this.globalContext.getFunction(name);
 			if (globalFunc !== undefined) {
 				return globalFunc;
 			}
@@ -143,7 +334,7 @@ export class ExecutionContext {
 	hasFunction(name: string): boolean {
 		return (
 			this.functions.has(name) ||
-			(this.globalContext?.functions.has(name) ?? false) ||
+			(this.globalContext?.hasFunction(name) ?? false) ||
 			(this.parent?.hasFunction(name) ?? false)
 		);
 	}
@@ -153,6 +344,21 @@ export class ExecutionContext {
 		this.functions.clear();
 	}
 
+	// Module contexts are cached and shared by every importer, so values are
+	// copied to keep one note's in-place changes out of the others
+	importDefinitions(source: ExecutionContext): void {
+		for (const [name, value] of source.variables) {
+			this.writeVariable(name, copyValue(value));
+		}
+
+		for (const [name, func] of source.functions) {
+			this.writeFunction(name, {
+				...func,
+				closure: func.closure ?? source,
+			});
+		}
+	}
+
 	getAllVariables(): Map<string, EvaluatedValue> {
 		return new Map(this.variables);
 	}
@@ -162,11 +368,27 @@ export class ExecutionContext {
 	}
 }
 
+export interface ModuleLoader {
+	load(path: string, line: number, column: number): ExecutionContext;
+}
+
 export class Evaluator {
 	private context: ExecutionContext;
-
-	constructor(context?: ExecutionContext) {
+	private budget: ExecutionBudget;
+	private modules?: ModuleLoader;
+	private position?: number;
+	private loopDepth = 0;
+
+	constructor(
+		context?: ExecutionContext,
+		budget?: ExecutionBudget,
+		modules?: ModuleLoader,
+		position?: number
+	) {
 		this.context = context || new ExecutionContext();
+		this.budget = budget || new ExecutionBudget();
+		this.modules = modules;
+		this.position = position;
 	}
 
 	getContext(): ExecutionContext {
@@ -187,6 +409,8 @@ export class Evaluator {
 	}
 
 	public evaluateStatement(statement: StatementNode): EvaluatedValue | null {
+		this.budget.step(statement.line, statement.column);
+
 		switch (statement.type) {
 			case "Variable":
 				return this.evaluateVariableDeclaration(
@@ -202,10 +426,19 @@ export class Evaluator {
 				);
 			case "Return":
 				return this.evaluateReturn(statement as ReturnNode);
+			case "Break":
+			case "Continue":
+				return this.evaluateLoopControl(
+					statement as BreakNode | ContinueNode
+				);
+			case "Import":
+				return this.evaluateImport(statement as ImportNode);
 			case "If":
 				return this.evaluateIfStatement(statement as IfNode);
 			case "For":
 				return this.evaluateForStatement(statement as ForNode);
+			case "ForEach":
+				return this.evaluateForEachStatement(statement as ForEachNode);
 			case "While":
 				return this.evaluateWhileStatement(statement as WhileNode);
 			case "String":
@@ -214,11 +447,13 @@ export class Evaluator {
 			case "Boolean":
 			case "Identifier":
 			case "Array":
+			case "Map":
 			case "ArrayIndex":
 			case "Concatenation":
 			case "BinaryOp":
 			case "UnaryOp":
 			case "FunctionCall":
+			case "Lambda":
 			case "AnonymousFunction":
 			case "Block":
 				return this.evaluateExpression(statement as ExpressionNode);
@@ -226,13 +461,17 @@ export class Evaluator {
 				throw new RuntimeError(
 					`Unknown statement type: ${(statement as any).type}`,
 					(statement as any).line,
-					(statement as any).column
+					(statement as any).column,
+					statement as ASTNode
 				);
 		}
 	}
 
 	private evaluateVariableDeclaration(node: VariableNode): null {
 		const value = this.evaluateExpression(node.value);
+		if (node.isGlobal || this.context.isGlobalVariable(node.name)) {
+			this.checkDeclarationOrder(node.name, node, true, true);
+		}
 		this.context.setVariable(node.name, value, node.isGlobal);
 		return null;
 	}
@@ -249,6 +488,8 @@ export class Evaluator {
 				return this.evaluateBoolean(expr as BooleanNode);
 			case "Array":
 				return this.evaluateArray(expr as ArrayNode);
+			case "Map":
+				return this.evaluateMap(expr as MapNode);
 			case "ArrayIndex":
 				return this.evaluateArrayIndex(expr as ArrayIndexNode);
 			case "Identifier":
@@ -261,6 +502,8 @@ export class Evaluator {
 				return this.evaluateUnaryOp(expr as UnaryOpNode);
 			case "FunctionCall":
 				return this.evaluateFunctionCall(expr as FunctionCallNode);
+			case "Lambda":
+				return this.evaluateLambda(expr as LambdaNode);
 			case "AnonymousFunction":
 				return this.evaluateAnonymousFunction(
 					expr as AnonymousFunctionNode
@@ -271,7 +514,8 @@ export class Evaluator {
 				throw new RuntimeError(
 					`Unknown expression type: ${(expr as any).type}`,
 					(expr as any).line,
-					(expr as any).column
+					(expr as any).column,
+					expr as ASTNode
 				);
 		}
 	}
@@ -334,15 +578,43 @@ export class Evaluator {
 		};
 	}
 
+	private evaluateMap(node: MapNode): EvaluatedValue {
+		const entries: MapValue = new Map();
+		for (const entry of node.entries) {
+			entries.set(entry.key, this.evaluateExpression(entry.value));
+		}
+		return {
+			value: entries,
+			isMarkdown: false,
+		};
+	}
+
 	private evaluateArrayIndex(node: ArrayIndexNode): EvaluatedValue {
 		const arrayValue = this.evaluateExpression(node.array);
 		const indexValue = this.evaluateExpression(node.index);
 
+		if (arrayValue.value instanceof Map) {
+			const key = this.toMapKey(indexValue, node);
+			const entry = arrayValue.value.get(key);
+
+			if (entry === undefined) {
+				throw new RuntimeError(
+					`Key not found in map: "${key}"`,
+					node.line,
+					node.column,
+					node
+				);
+			}
+
+			return entry;
+		}
+
 		if (typeof indexValue.value !== "number") {
 			throw new RuntimeError(
 				`Index must be a number (got ${typeof indexValue.value})`,
 				node.line,
-				node.column
+				node.column,
+				node
 			);
 		}
 
@@ -355,7 +627,8 @@ export class Evaluator {
 				throw new RuntimeError(
 					`Array index out of bounds: ${index} (array length: ${array.length})`,
 					node.line,
-					node.column
+					node.column,
+					node
 				);
 			}
 
@@ -369,7 +642,8 @@ export class Evaluator {
 				throw new RuntimeError(
 					`String index out of bounds: ${index} (string length: ${str.length})`,
 					node.line,
-					node.column
+					node.column,
+					node
 				);
 			}
 
@@ -380,41 +654,82 @@ export class Evaluator {
 		}
 
 		throw new RuntimeError(
-			`Cannot index ${typeof arrayValue.value} (only arrays and strings can be indexed)`,
+			`Cannot index ${typeof arrayValue.value} (only arrays, strings and maps can be indexed)`,
 			node.line,
-			node.column
+			node.column,
+			node
 		);
 	}
 
+	private toMapKey(
+		keyValue: EvaluatedValue,
+		node: ArrayIndexNode | ArrayIndexAssignmentNode
+	): string {
+		if (typeof keyValue.value !== "string") {
+			throw new RuntimeError(
+				`Map key must be a string (got ${typeof keyValue.value})`,
+				node.line,
+				node.column,
+				node
+			);
+		}
+		return keyValue.value;
+	}
+
 	private evaluateArrayIndexAssignment(node: ArrayIndexAssignmentNode): null {
 		const value = this.evaluateExpression(node.value);
 
-		if (node.array.type !== "Identifier") {
+		if (
+			node.array.type !== "Identifier" &&
+			node.array.type !== "ArrayIndex"
+		) {
 			throw new RuntimeError(
 				`Can only assign to variable, not expression`,
 				node.line,
-				node.column
+				node.column,
+				node
 			);
 		}
 
-		const varName = (node.array as IdentifierNode).name;
-		const varValue = this.context.getVariable(varName);
+		const varName =
+			node.array.type === "Identifier"
+				? (node.array as IdentifierNode).name
+				: null;
+		const varValue =
+			varName !== null
+				? this.context.getVariable(varName)
+				: this.evaluateExpression(node.array);
 
 		if (varValue === undefined) {
 			throw new RuntimeError(
 				`Undefined variable: ${varName}`,
 				node.line,
-				node.column
+				node.column,
+				node
 			);
 		}
 
 		const indexValue = this.evaluateExpression(node.index);
+		const rootName = getRootVariableName(node.array);
+		if (rootName !== null && this.context.isGlobalVariable(rootName)) {
+			this.checkDeclarationOrder(rootName, node, true, true);
+		}
+
+		if (varValue.value instanceof Map) {
+			const key = this.toMapKey(indexValue, node);
+			if (rootName !== null) {
+				this.context.markVariableChanged(rootName);
+			}
+			varValue.value.set(key, value);
+			return null;
+		}
 
 		if (typeof indexValue.value !== "number") {
 			throw new RuntimeError(
 				`Index must be a number (got ${typeof indexValue.value})`,
 				node.line,
-				node.column
+				node.column,
+				node
 			);
 		}
 
@@ -427,10 +742,14 @@ export class Evaluator {
 				throw new RuntimeError(
 					`Array index out of bounds: ${index} (array length: ${array.length})`,
 					node.line,
-					node.column
+					node.column,
+					node
 				);
 			}
 
+			if (rootName !== null) {
+				this.context.markVariableChanged(rootName);
+			}
 			array[index] = value;
 			return null;
 		}
@@ -442,7 +761,8 @@ export class Evaluator {
 				throw new RuntimeError(
 					`String index out of bounds: ${index} (string length: ${str.length})`,
 					node.line,
-					node.column
+					node.column,
+					node
 				);
 			}
 
@@ -450,7 +770,17 @@ export class Evaluator {
 				throw new RuntimeError(
 					`Cannot assign ${typeof value.value} to string index (must be string)`,
 					node.line,
-					node.column
+					node.column,
+					node
+				);
+			}
+
+			if (varName === null) {
+				throw new RuntimeError(
+					`Cannot assign to a character of a nested string`,
+					node.line,
+					node.column,
+					node
 				);
 			}
 
@@ -472,26 +802,84 @@ export class Evaluator {
 		}
 
 		throw new RuntimeError(
-			`Cannot index ${typeof varValue.value} (only arrays and strings can be indexed)`,
+			`Cannot index ${typeof varValue.value} (only arrays, strings and maps can be indexed)`,
 			node.line,
-			node.column
+			node.column,
+			node
 		);
 	}
 
 	private evaluateIdentifier(node: IdentifierNode): EvaluatedValue {
 		const value = this.context.getVariable(node.name);
 
+		if (value === undefined || this.context.isGlobalVariable(node.name)) {
+			this.checkDeclarationOrder(node.name, node, value !== undefined);
+		}
+
 		if (value === undefined) {
+			const funcDef = this.context.getFunction(node.name);
+			if (funcDef) {
+				return {
+					value: new FunctionValue(node.name, funcDef),
+					isMarkdown: false,
+				};
+			}
+
+			const stdlibFunc = getStdLibFunction(node.name);
+			if (stdlibFunc) {
+				return {
+					value: new FunctionValue(node.name, undefined, stdlibFunc),
+					isMarkdown: false,
+				};
+			}
+
 			throw new RuntimeError(
 				`Undefined variable: ${node.name}`,
 				node.line,
-				node.column
+				node.column,
+				node
 			);
 		}
 
 		return value;
 	}
 
+	// Global variables follow document order: a block may only read or
+	// assign a global that is declared in the same or an earlier block of the
+	// note, including from the functions it calls
+	private checkDeclarationOrder(
+		name: string,
+		node: ASTNode,
+		defined: boolean,
+		assigned = false
+	): void {
+		if (this.position === undefined) {
+			return;
+		}
+
+		const globalContext = this.context.getGlobalContext() ?? this.context;
+		const declaration = globalContext.getDeclaration(name);
+		if (!declaration) {
+			return;
+		}
+
+		if (
+			declaration.block > this.position ||
+			(declaration.block === this.position && !defined && !assigned)
+		) {
+			throw new RuntimeError(
+				`Global variable ~${name} is ${
+					assigned ? "assigned" : "used"
+				} before its definition in block ${
+					declaration.block + 1
+				} at line ${declaration.line}`,
+				node.line,
+				node.column,
+				node
+			);
+		}
+	}
+
 	private evaluateConcatenation(node: ConcatenationNode): EvaluatedValue {
 		const parts = node.parts.map((part) => this.evaluateExpression(part));
 
@@ -534,7 +922,8 @@ export class Evaluator {
 					throw new RuntimeError(
 						`Unknown comparison operator: ${node.operator}`,
 						node.line,
-						node.column
+						node.column,
+						node
 					);
 			}
 
@@ -600,7 +989,8 @@ export class Evaluator {
 					throw new RuntimeError(
 						"Division by zero",
 						node.line,
-						node.column
+						node.column,
+						node
 					);
 				}
 				result = leftNum / rightNum;
@@ -610,7 +1000,8 @@ export class Evaluator {
 					throw new RuntimeError(
 						"Modulo by zero",
 						node.line,
-						node.column
+						node.column,
+						node
 					);
 				}
 				result = leftNum % rightNum;
@@ -619,7 +1010,8 @@ export class Evaluator {
 				throw new RuntimeError(
 					`Unknown binary operator: ${node.operator}`,
 					node.line,
-					node.column
+					node.column,
+					node
 				);
 		}
 
@@ -656,7 +1048,8 @@ export class Evaluator {
 			throw new RuntimeError(
 				`${node.operator} requires a variable`,
 				node.line,
-				node.column
+				node.column,
+				node
 			);
 		}
 
@@ -665,7 +1058,8 @@ export class Evaluator {
 			throw new RuntimeError(
 				`Undefined variable: ${node.operand.name}`,
 				node.line,
-				node.column
+				node.column,
+				node
 			);
 		}
 
@@ -675,6 +1069,9 @@ export class Evaluator {
 			node.operator === "++" ? currentNum + 1 : currentNum - 1;
 
 		const isGlobalVar = this.context.isGlobalVariable(node.operand.name);
+		if (isGlobalVar) {
+			this.checkDeclarationOrder(node.operand.name, node, true, true);
+		}
 
 		this.context.setVariable(
 			node.operand.name,
@@ -692,7 +1089,7 @@ export class Evaluator {
 	}
 
 	private toNumber(
-		value: string | number | boolean | EvaluatedValue[],
+		value: EvaluatedValue["value"],
 		line: number,
 		column: number
 	): number {
@@ -709,6 +1106,20 @@ export class Evaluator {
 				column
 			);
 		}
+		if (value instanceof Map) {
+			throw new RuntimeError(
+				`Cannot convert map to number`,
+				line,
+				column
+			);
+		}
+		if (value instanceof FunctionValue) {
+			throw new RuntimeError(
+				`Cannot convert function to number`,
+				line,
+				column
+			);
+		}
 		const num = parseFloat(value);
 		if (isNaN(num)) {
 			throw new RuntimeError(
@@ -720,16 +1131,18 @@ export class Evaluator {
 		return num;
 	}
 
-	private toBoolean(
-		value: string | number | boolean | EvaluatedValue[]
-	): boolean {
+	toBoolean(value: EvaluatedValue["value"]): boolean {
 		if (typeof value === "boolean") {
 			return value;
 		}
 		if (typeof value === "number") {
 			return value !== 0;
 		}
-		if (Array.isArray(value)) {
+		if (
+			Array.isArray(value) ||
+			value instanceof Map ||
+			value instanceof FunctionValue
+		) {
 			return true;
 		}
 
@@ -741,7 +1154,8 @@ export class Evaluator {
 			throw new RuntimeError(
 				`Cannot redefine standard library function: ${node.name}`,
 				node.line,
-				node.column
+				node.column,
+				node
 			);
 		}
 
@@ -757,6 +1171,27 @@ export class Evaluator {
 		return null;
 	}
 
+	private evaluateImport(node: ImportNode): null {
+		if (!this.modules) {
+			throw new RuntimeError(
+				`Cannot import "${node.path}": modules are not available here`,
+				node.line,
+				node.column,
+				node
+			);
+		}
+
+		const moduleContext = this.modules.load(
+			node.path,
+			node.line,
+			node.column
+		);
+		const target = this.context.getGlobalContext() ?? this.context;
+		target.importDefinitions(moduleContext);
+
+		return null;
+	}
+
 	private evaluateReturn(node: ReturnNode): never {
 		if (node.value) {
 			const value = this.evaluateExpression(node.value);
@@ -766,6 +1201,24 @@ export class Evaluator {
 		}
 	}
 
+	private evaluateLoopControl(node: BreakNode | ContinueNode): never {
+		const keyword = node.type === "Break" ? "break" : "continue";
+
+		if (this.loopDepth === 0) {
+			throw new RuntimeError(
+				`'${keyword}' can only be used inside a loop`,
+				node.line,
+				node.column,
+				node
+			);
+		}
+
+		if (node.type === "Break") {
+			throw new BreakSignal();
+		}
+		throw new ContinueSignal();
+	}
+
 	private evaluateIfStatement(node: IfNode): EvaluatedValue | null {
 		const conditionResult = this.evaluateExpression(node.condition);
 		const conditionValue = this.toBoolean(conditionResult.value);
@@ -796,6 +1249,8 @@ export class Evaluator {
 		const results: EvaluatedValue[] = [];
 
 		while (true) {
+			this.budget.step(node.line, node.column);
+
 			const conditionValue = this.evaluateExpression(node.condition);
 			const conditionBoolean = this.toBoolean(conditionValue.value);
 
@@ -803,37 +1258,79 @@ export class Evaluator {
 				break;
 			}
 
-			for (const stmt of node.body) {
-				const result = this.evaluateStatement(stmt);
-				if (result !== null) {
-					results.push(result);
-				}
+			if (!this.evaluateLoopBody(node.body, results)) {
+				break;
 			}
 
 			this.evaluateExpression(node.update);
 		}
 
-		if (results.length === 0) {
-			return null;
+		return this.combineLoopResults(results);
+	}
+
+	private evaluateForEachStatement(node: ForEachNode): EvaluatedValue | null {
+		const iterable = this.evaluateExpression(node.iterable);
+		const entries = this.getIterationEntries(iterable, node);
+
+		const results: EvaluatedValue[] = [];
+
+		for (const [index, item] of entries) {
+			this.budget.step(node.line, node.column);
+
+			if (node.indexName) {
+				this.context.setVariable(node.indexName, index);
+			}
+			this.context.setVariable(node.itemName, item);
+
+			if (!this.evaluateLoopBody(node.body, results)) {
+				break;
+			}
 		}
 
-		if (results.length === 1) {
-			return results[0];
+		return this.combineLoopResults(results);
+	}
+
+	private getIterationEntries(
+		iterable: EvaluatedValue,
+		node: ForEachNode
+	): Array<[EvaluatedValue, EvaluatedValue]> {
+		if (Array.isArray(iterable.value)) {
+			return iterable.value.map((item, i) => [
+				{ value: i, isMarkdown: true },
+				item,
+			]);
 		}
 
-		const concatenated = results.map((r) => r.value).join(" ");
-		const isMarkdown = results.some((r) => r.isMarkdown);
+		if (iterable.value instanceof Map) {
+			return Array.from(iterable.value).map(([key, value]) => {
+				const keyValue = { value: key, isMarkdown: false };
+				return node.indexName
+					? [keyValue, value]
+					: [keyValue, keyValue];
+			});
+		}
 
-		return {
-			value: concatenated,
-			isMarkdown,
-		};
+		if (typeof iterable.value === "string") {
+			return Array.from(iterable.value).map((char, i) => [
+				{ value: i, isMarkdown: true },
+				{ value: char, isMarkdown: iterable.isMarkdown },
+			]);
+		}
+
+		throw new RuntimeError(
+			`Cannot iterate over ${typeof iterable.value} (only arrays, strings and maps can be iterated)`,
+			node.line,
+			node.column,
+			node
+		);
 	}
 
 	private evaluateWhileStatement(node: WhileNode): EvaluatedValue | null {
 		const results: EvaluatedValue[] = [];
 
 		while (true) {
+			this.budget.step(node.line, node.column);
+
 			const conditionValue = this.evaluateExpression(node.condition);
 			const conditionBoolean = this.toBoolean(conditionValue.value);
 
@@ -841,14 +1338,45 @@ export class Evaluator {
 				break;
 			}
 
-			for (const stmt of node.body) {
+			if (!this.evaluateLoopBody(node.body, results)) {
+				break;
+			}
+		}
+
+		return this.combineLoopResults(results);
+	}
+
+	private evaluateLoopBody(
+		body: StatementNode[],
+		results: EvaluatedValue[]
+	): boolean {
+		this.loopDepth++;
+
+		try {
+			for (const stmt of body) {
 				const result = this.evaluateStatement(stmt);
 				if (result !== null) {
 					results.push(result);
 				}
 			}
+		} catch (e) {
+			if (e instanceof BreakSignal) {
+				return false;
+			}
+			if (e instanceof ContinueSignal) {
+				return true;
+			}
+			throw e;
+		} finally {
+			this.loopDepth--;
 		}
 
+		return true;
+	}
+
+	private combineLoopResults(
+		results: EvaluatedValue[]
+	): EvaluatedValue | null {
 		if (results.length === 0) {
 			return null;
 		}
@@ -857,12 +1385,20 @@ export class Evaluator {
 			return results[0];
 		}
 
-		const concatenated = results.map((r) => r.value).join(" ");
-		const isMarkdown = results.some((r) => r.isMarkdown);
+		return this.createContainer(results);
+	}
 
+	private createContainer(
+		children: EvaluatedValue[],
+		styles?: string[]
+	): EvaluatedValue {
+		// The children render separately, the joined text is what string
+		// concatenation and interpolation see
 		return {
-			value: concatenated,
-			isMarkdown,
+			value: children.map((child) => child.value).join(" "),
+			isMarkdown: children.some((child) => child.isMarkdown),
+			styles: styles && styles.length > 0 ? styles : undefined,
+			children,
 		};
 	}
 
@@ -888,22 +1424,95 @@ export class Evaluator {
 				this.evaluateExpression(arg)
 			);
 
-			return stdlibFunc(argValues, node.line, node.column);
+			try {
+				return stdlibFunc(argValues, node.line, node.column, this);
+			} catch (error) {
+				// Library functions only know where the call starts
+				if (
+					error instanceof RuntimeError &&
+					error.start === undefined &&
+					error.line === node.line &&
+					error.column === node.column
+				) {
+					error.start = node.start;
+					error.end = node.end;
+				}
+				throw error;
+			}
 		}
 
 		const funcDef = this.context.getFunction(node.name);
 
-		if (!funcDef) {
+		if (funcDef) {
+			const argValues = node.args.map((arg) =>
+				this.evaluateExpression(arg)
+			);
+
+			return this.executeFunction(
+				funcDef,
+				argValues,
+				node.line,
+				node.column
+			);
+		}
+
+		const variable = this.context.getVariable(node.name);
+
+		if (!variable) {
 			throw new RuntimeError(
 				`Undefined function: ${node.name}`,
 				node.line,
-				node.column
+				node.column,
+				node
+			);
+		}
+
+		if (!(variable.value instanceof FunctionValue)) {
+			throw new RuntimeError(
+				`${node.name} is not a function (got ${typeof variable.value})`,
+				node.line,
+				node.column,
+				node
 			);
 		}
 
 		const argValues = node.args.map((arg) => this.evaluateExpression(arg));
 
-		return this.executeFunction(funcDef, argValues, node.line, node.column);
+		return this.callFunction(
+			variable.value,
+			argValues,
+			node.line,
+			node.column
+		);
+	}
+
+	callFunction(
+		callee: FunctionValue,
+		args: EvaluatedValue[],
+		line: number,
+		column: number
+	): EvaluatedValue {
+		if (callee.native) {
+			return callee.native(args, line, column, this);
+		}
+
+		if (!callee.definition) {
+			throw new RuntimeError(`${callee} has no definition`, line, column);
+		}
+
+		return this.executeFunction(callee.definition, args, line, column);
+	}
+
+	private evaluateLambda(node: LambdaNode): EvaluatedValue {
+		return {
+			value: new FunctionValue(null, {
+				params: node.params,
+				styles: node.styles,
+				body: node.body,
+				closure: this.context,
+			}),
+			isMarkdown: false,
+		};
 	}
 
 	private evaluateAnonymousFunction(
@@ -946,15 +1555,7 @@ export class Evaluator {
 			};
 		}
 
-		const concatenated = results.map((r) => r.value).join(" ");
-		const isMarkdown = results.some((r) => r.isMarkdown);
-
-		return {
-			value: concatenated,
-			isMarkdown,
-			styles: node.styles.length > 0 ? node.styles : undefined,
-			children: results,
-		};
+		return this.createContainer(results, node.styles);
 	}
 
 	private executeFunction(
@@ -963,7 +1564,9 @@ export class Evaluator {
 		line: number,
 		column: number
 	): EvaluatedValue {
-		const funcContext = new ExecutionContext(this.context);
+		const funcContext = new ExecutionContext(
+			funcDef.closure ?? this.context
+		);
 
 		const globalCtx = this.context.getGlobalContext();
 		if (globalCtx) {
@@ -992,9 +1595,15 @@ export class Evaluator {
 			);
 		}
 
-		const funcEvaluator = new Evaluator(funcContext);
+		const funcEvaluator = new Evaluator(
+			funcContext,
+			this.budget,
+			this.modules,
+			this.position
+		);
 
 		const results: EvaluatedValue[] = [];
+		this.budget.enterCall(line, column);
 		try {
 			for (const stmt of funcDef.body) {
 				const result = funcEvaluator["evaluateStatement"](stmt);
@@ -1003,6 +1612,16 @@ export class Evaluator {
 				}
 			}
 		} catch (e) {
+			// Other range errors, e.g. an invalid array length, keep their
+			// own message
+			if (e instanceof RangeError && isStackOverflow(e)) {
+				throw new RuntimeError(
+					"Maximum call stack size exceeded",
+					line,
+					column
+				);
+			}
+
 			if (e instanceof ReturnValue) {
 				if (e.value) {
 					return {
@@ -1018,6 +1637,8 @@ export class Evaluator {
 			}
 
 			throw e;
+		} finally {
+			this.budget.exitCall();
 		}
 
 		if (results.length === 0) {
@@ -1034,14 +1655,45 @@ export class Evaluator {
 			};
 		}
 
-		const concatenated = results.map((r) => r.value).join(" ");
-		const isMarkdown = results.some((r) => r.isMarkdown);
+		return this.createContainer(results, funcDef.styles);
+	}
+}
 
-		return {
-			value: concatenated,
-			isMarkdown,
-			styles: funcDef.styles.length > 0 ? funcDef.styles : undefined,
-			children: results,
-		};
+// `@a[0][1] = …` changes the value held by @a
+function getRootVariableName(node: ExpressionNode): string | null {
+	while (node.type === "ArrayIndex") {
+		node = node.array;
+	}
+	return node.type === "Identifier" ? node.name : null;
+}
+
+// Arrays and maps are copied all the way down. Functions cannot be changed
+// in place and are shared
+function copyValue(value: EvaluatedValue): EvaluatedValue {
+	const copy: EvaluatedValue = { ...value };
+	const raw = value.value;
+
+	if (Array.isArray(raw)) {
+		copy.value = raw.map((item) => copyValue(item));
+	} else if (raw instanceof Map) {
+		copy.value = new Map(
+			Array.from(raw).map(([key, item]) => [key, copyValue(item)])
+		);
 	}
+
+	if (value.styles) {
+		copy.styles = [...value.styles];
+	}
+
+	if (value.children) {
+		copy.children = value.children.map((child) => copyValue(child));
+	}
+
+	return copy;
+}
+
+// The call depth budget normally stops recursion first. Without a limit the
+// engine's own stack overflow is reported the same way
+function isStackOverflow(error: RangeError): boolean {
+	return /call stack/i.test(error.message);
 }
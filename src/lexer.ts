@@ -2,17 +2,27 @@ import {
 	Token,
 	TokenType,
 	LexerError,
+	SourcePosition,
 	TemplatePart,
 } from "./types/lexer.types";
 
+// Offsets are added once the whole token has been read
+type ScannedToken = Omit<Token, "start" | "end">;
+
 export class Lexer {
 	private source: string;
 	private pos: number = 0;
 	private line: number = 1;
 	private column: number = 1;
+	private offset = 0;
 
-	constructor(source: string) {
+	constructor(source: string, origin?: SourcePosition) {
 		this.source = source;
+		if (origin) {
+			this.line = origin.line;
+			this.column = origin.column;
+			this.offset = origin.offset;
+		}
 	}
 
 	tokenize(): Token[] {
@@ -30,6 +40,8 @@ export class Lexer {
 			value: "",
 			line: this.line,
 			column: this.column,
+			start: this.pos + this.offset,
+			end: this.pos + this.offset,
 		});
 
 		return tokens;
@@ -43,7 +55,49 @@ export class Lexer {
 			return null;
 		}
 
-		const start = this.pos;
+		const start = this.pos + this.offset;
+		const line = this.line;
+		const column = this.column;
+
+		try {
+			const token = this.scanToken();
+			return { ...token, start, end: this.pos + this.offset };
+		} catch (error) {
+			if (!(error instanceof LexerError)) {
+				throw error;
+			}
+			return this.skipInvalidToken(error, start, line, column);
+		}
+	}
+
+	// The rest of the line becomes a single ERROR token, so the parser only
+	// loses the statement it belongs to
+	private skipInvalidToken(
+		error: LexerError,
+		start: number,
+		line: number,
+		column: number
+	): Token {
+		while (!this.isAtEnd() && this.peek() !== "\n") {
+			this.advance();
+		}
+
+		const end = this.pos + this.offset;
+		error.start = start;
+		error.end = end;
+
+		return {
+			type: TokenType.ERROR,
+			value: this.source.slice(start - this.offset, end - this.offset),
+			line,
+			column,
+			start,
+			end,
+			error,
+		};
+	}
+
+	private scanToken(): ScannedToken {
 		const startLine = this.line;
 		const startColumn = this.column;
 
@@ -327,6 +381,22 @@ export class Lexer {
 					line: startLine,
 					column: startColumn,
 				};
+			case ":":
+				this.advance();
+				return {
+					type: TokenType.COLON,
+					value: ":",
+					line: startLine,
+					column: startColumn,
+				};
+			case ".":
+				this.advance();
+				return {
+					type: TokenType.DOT,
+					value: ".",
+					line: startLine,
+					column: startColumn,
+				};
 		}
 
 		if (this.isAlpha(char)) {
@@ -340,7 +410,7 @@ export class Lexer {
 		);
 	}
 
-	private readString(startLine: number, startColumn: number): Token {
+	private readString(startLine: number, startColumn: number): ScannedToken {
 		this.advance();
 
 		if (this.peek() === '"' && this.peekNext() === '"') {
@@ -395,6 +465,7 @@ export class Lexer {
 				hasTemplates = true;
 
 				this.advance();
+				const origin = this.position();
 				let exprSource = "";
 				let depth = 1;
 
@@ -429,7 +500,7 @@ export class Lexer {
 					);
 				}
 
-				parts.push({ type: "expression", value: exprSource.trim() });
+				parts.push(this.templateExpression(exprSource, origin));
 			} else {
 				value += this.peek();
 				this.advance();
@@ -464,7 +535,10 @@ export class Lexer {
 		};
 	}
 
-	private readMultilineString(startLine: number, startColumn: number): Token {
+	private readMultilineString(
+		startLine: number,
+		startColumn: number
+	): ScannedToken {
 		let value = "";
 		const parts: TemplatePart[] = [];
 		let hasTemplates = false;
@@ -533,6 +607,7 @@ export class Lexer {
 				hasTemplates = true;
 
 				this.advance();
+				const origin = this.position();
 				let exprSource = "";
 				let depth = 1;
 
@@ -561,7 +636,7 @@ export class Lexer {
 					);
 				}
 
-				parts.push({ type: "expression", value: exprSource.trim() });
+				parts.push(this.templateExpression(exprSource, origin));
 			} else {
 				value += this.peek();
 				this.advance();
@@ -575,7 +650,10 @@ export class Lexer {
 		);
 	}
 
-	private readLiteralString(startLine: number, startColumn: number): Token {
+	private readLiteralString(
+		startLine: number,
+		startColumn: number
+	): ScannedToken {
 		this.advance();
 
 		let value = "";
@@ -606,7 +684,7 @@ export class Lexer {
 		startLine: number,
 		startColumn: number,
 		isGlobal: boolean = false
-	): Token {
+	): ScannedToken {
 		this.advance();
 
 		if (
@@ -647,7 +725,7 @@ export class Lexer {
 		};
 	}
 
-	private readName(startLine: number, startColumn: number): Token {
+	private readName(startLine: number, startColumn: number): ScannedToken {
 		let value = "";
 		while (
 			!this.isAtEnd() &&
@@ -702,6 +780,33 @@ export class Lexer {
 			};
 		}
 
+		if (value === "in") {
+			return {
+				type: TokenType.IN,
+				value,
+				line: startLine,
+				column: startColumn,
+			};
+		}
+
+		if (value === "break") {
+			return {
+				type: TokenType.BREAK,
+				value,
+				line: startLine,
+				column: startColumn,
+			};
+		}
+
+		if (value === "continue") {
+			return {
+				type: TokenType.CONTINUE,
+				value,
+				line: startLine,
+				column: startColumn,
+			};
+		}
+
 		return {
 			type: TokenType.NAME,
 			value,
@@ -710,7 +815,7 @@ export class Lexer {
 		};
 	}
 
-	private readNumber(startLine: number, startColumn: number): Token {
+	private readNumber(startLine: number, startColumn: number): ScannedToken {
 		let value = "";
 
 		while (!this.isAtEnd() && this.isDigit(this.peek())) {
@@ -805,6 +910,35 @@ export class Lexer {
 		};
 	}
 
+	private position(): SourcePosition {
+		return {
+			line: this.line,
+			column: this.column,
+			offset: this.pos + this.offset,
+		};
+	}
+
+	// Trims the expression and moves its origin past the leading whitespace
+	private templateExpression(
+		source: string,
+		origin: SourcePosition
+	): TemplatePart {
+		const leading = source.length - source.trimStart().length;
+		const position = { ...origin };
+
+		for (const char of source.slice(0, leading)) {
+			position.offset++;
+			if (char === "\n") {
+				position.line++;
+				position.column = 1;
+			} else {
+				position.column++;
+			}
+		}
+
+		return { type: "expression", value: source.trim(), origin: position };
+	}
+
 	private skipWhitespace(): void {
 		while (!this.isAtEnd()) {
 			const char = this.peek();
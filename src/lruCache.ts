@@ -0,0 +1,38 @@
+// Map-backed cache that evicts the least recently used entry once it holds
+// more than `capacity` entries
+export class LRUCache<K, V> {
+	private entries: Map<K, V> = new Map();
+
+	constructor(private capacity: number) {}
+
+	get(key: K): V | undefined {
+		const value = this.entries.get(key);
+		if (value !== undefined) {
+			this.entries.delete(key);
+			this.entries.set(key, value);
+		}
+		return value;
+	}
+
+	set(key: K, value: V): void {
+		this.entries.delete(key);
+		this.entries.set(key, value);
+
+		if (this.entries.size > this.capacity) {
+			const oldest = this.entries.keys().next().value as K;
+			this.entries.delete(oldest);
+		}
+	}
+
+	delete(key: K): void {
+		this.entries.delete(key);
+	}
+
+	clear(): void {
+		this.entries.clear();
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+}
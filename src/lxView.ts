@@ -0,0 +1,112 @@
+import { TextFileView, TFile, WorkspaceLeaf, debounce } from "obsidian";
+import { EditorView } from "@codemirror/view";
+import { lxHighlighting } from "./syntaxHighlighting";
+import { BlockRenderChild } from "./blockRenderChild";
+import MDLXPlugin from "../main";
+
+export const LX_VIEW_TYPE = "mdlx-lx-view";
+
+export class LxFileView extends TextFileView {
+	private editor: EditorView;
+	private preview: BlockRenderChild;
+	private updatingEditor = false;
+
+	private schedulePreview = debounce(() => this.renderPreview(), 300, true);
+
+	constructor(leaf: WorkspaceLeaf, private plugin: MDLXPlugin) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return LX_VIEW_TYPE;
+	}
+
+	getIcon(): string {
+		return "code-2";
+	}
+
+	async onOpen(): Promise<void> {
+		this.contentEl.empty();
+		this.contentEl.addClass("lx-file-view");
+
+		const editorEl = this.contentEl.createDiv({ cls: "lx-file-editor" });
+		this.preview = this.addChild(
+			new BlockRenderChild(
+				this.contentEl.createDiv({
+					cls: "lx-file-preview markdown-rendered",
+				})
+			)
+		);
+
+		this.editor = new EditorView({
+			parent: editorEl,
+			extensions: [
+				lxHighlighting(),
+				EditorView.lineWrapping,
+				EditorView.updateListener.of((update) => {
+					if (update.docChanged && !this.updatingEditor) {
+						this.requestSave();
+						this.schedulePreview();
+					}
+				}),
+			],
+		});
+	}
+
+	async onClose(): Promise<void> {
+		this.editor?.destroy();
+		this.removeChild(this.preview);
+	}
+
+	getViewData(): string {
+		return this.editor.state.doc.toString();
+	}
+
+	setViewData(data: string, clear: boolean): void {
+		this.updatingEditor = true;
+		try {
+			this.editor.dispatch({
+				changes: {
+					from: 0,
+					to: this.editor.state.doc.length,
+					insert: data,
+				},
+			});
+		} finally {
+			this.updatingEditor = false;
+		}
+
+		this.renderPreview();
+	}
+
+	clear(): void {
+		this.setViewData("", true);
+	}
+
+	private renderPreview(): void {
+		if (this.file instanceof TFile) {
+			this.plugin.renderLxFile(
+				this.file,
+				this.getViewData(),
+				this.preview,
+				(line, column) => this.revealPosition(line, column)
+			);
+		}
+	}
+
+	private revealPosition(line: number, column: number): void {
+		const doc = this.editor.state.doc;
+		if (line < 1 || line > doc.lines) {
+			return;
+		}
+
+		const target = doc.line(line);
+		this.editor.dispatch({
+			selection: {
+				anchor: Math.min(target.from + column - 1, target.to),
+			},
+			scrollIntoView: true,
+		});
+		this.editor.focus();
+	}
+}
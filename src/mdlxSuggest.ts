@@ -7,11 +7,12 @@ import {
 	TFile,
 } from "obsidian";
 import { STDLIB_FUNCTIONS } from "./stdlib";
+import { scanLxBlocks } from "./noteBlocks";
 import MDLXPlugin from "../main";
 
 interface MDLXSuggestion {
 	name: string;
-	type: "stdlib" | "global-var" | "global-func";
+	type: "stdlib" | "library" | "global-var" | "global-func";
 }
 
 export class MDLXSuggest extends EditorSuggest<MDLXSuggestion> {
@@ -64,13 +65,25 @@ export class MDLXSuggest extends EditorSuggest<MDLXSuggestion> {
 			}
 		}
 
+		const libraryNames = this.plugin.getLibraryNames();
+		if (libraryNames) {
+			for (const funcName of libraryNames.functions) {
+				if (
+					funcName.toLowerCase().includes(query) &&
+					!suggestions.some((s) => s.name === funcName)
+				) {
+					suggestions.push({
+						name: funcName,
+						type: "library",
+					});
+				}
+			}
+		}
+
 		if (context.file) {
-			const globalContext = this.plugin.getGlobalContext(
-				context.file.path
-			);
-			if (globalContext) {
-				const variables = globalContext.getAllVariables();
-				for (const varName of variables.keys()) {
+			const globalNames = this.plugin.getGlobalNames(context.file.path);
+			if (globalNames) {
+				for (const varName of globalNames.variables) {
 					if (
 						varName.toLowerCase().includes(query) &&
 						!suggestions.some((s) => s.name === varName)
@@ -82,8 +95,7 @@ export class MDLXSuggest extends EditorSuggest<MDLXSuggestion> {
 					}
 				}
 
-				const functions = globalContext.getAllFunctions();
-				for (const funcName of functions.keys()) {
+				for (const funcName of globalNames.functions) {
 					if (
 						funcName.toLowerCase().includes(query) &&
 						!suggestions.some((s) => s.name === funcName)
@@ -106,6 +118,8 @@ export class MDLXSuggest extends EditorSuggest<MDLXSuggestion> {
 			text:
 				suggestion.type === "stdlib"
 					? "stdlib"
+					: suggestion.type === "library"
+					? "library"
 					: suggestion.type === "global-var"
 					? "global var"
 					: "global func",
@@ -150,18 +164,9 @@ export class MDLXSuggest extends EditorSuggest<MDLXSuggestion> {
 	}
 
 	private isInsideLxBlock(editor: Editor, currentLine: number): boolean {
-		let inBlock = false;
-
-		for (let i = currentLine - 1; i >= 0; i--) {
-			const line = editor.getLine(i).trim();
-			if (line === "```") {
-				return inBlock;
-			}
-			if (line === "```lx") {
-				return true;
-			}
-		}
-
-		return false;
+		return scanLxBlocks(editor.getValue()).some(
+			(block) =>
+				currentLine > block.lineStart && currentLine < block.lineEnd
+		);
 	}
 }
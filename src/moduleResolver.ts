@@ -0,0 +1,73 @@
+import { App, TFile } from "obsidian";
+import { findImports } from "./modules";
+import { scanLxBlocks } from "./noteBlocks";
+import { ModuleSet, ModuleSource } from "./types/runtime.types";
+
+export class ModuleResolver {
+	constructor(private app: App) {}
+
+	async resolve(sources: string[], sourcePath: string): Promise<ModuleSet> {
+		const imports = this.resolveImports(sources, sourcePath);
+		const modules = await this.loadModules(Object.values(imports));
+		return { imports, modules };
+	}
+
+	async loadModules(paths: string[]): Promise<Record<string, ModuleSource>> {
+		const modules: Record<string, ModuleSource> = {};
+		const pending = [...paths];
+
+		while (pending.length > 0) {
+			const path = pending.pop() as string;
+			if (modules[path]) {
+				continue;
+			}
+
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) {
+				continue;
+			}
+
+			const content = await this.app.vault.cachedRead(file);
+			const moduleSources =
+				file.extension === "lx"
+					? [content]
+					: scanLxBlocks(content).map((block) => block.source);
+			const moduleImports = this.resolveImports(moduleSources, path);
+
+			modules[path] = {
+				path,
+				sources: moduleSources,
+				imports: moduleImports,
+			};
+			pending.push(...Object.values(moduleImports));
+		}
+
+		return modules;
+	}
+
+	private resolveImports(
+		sources: string[],
+		sourcePath: string
+	): Record<string, string> {
+		const imports: Record<string, string> = {};
+
+		for (const source of sources) {
+			for (const specifier of findImports(source)) {
+				const file = this.resolveFile(specifier, sourcePath);
+				if (file) {
+					imports[specifier] = file.path;
+				}
+			}
+		}
+
+		return imports;
+	}
+
+	private resolveFile(specifier: string, sourcePath: string): TFile | null {
+		const { metadataCache } = this.app;
+		return (
+			metadataCache.getFirstLinkpathDest(specifier, sourcePath) ??
+			metadataCache.getFirstLinkpathDest(`${specifier}.lx`, sourcePath)
+		);
+	}
+}
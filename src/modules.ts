@@ -0,0 +1,201 @@
+import { Lexer } from "./lexer";
+import { Parser } from "./parser";
+import {
+	Evaluator,
+	ExecutionBudget,
+	ExecutionContext,
+	ExecutionLimits,
+	ModuleLoader,
+	RuntimeError,
+} from "./evaluator";
+import { ImportNode, StatementNode } from "./types/ast.types";
+import { ModuleSet, ModuleSource } from "./types/runtime.types";
+
+export class ModuleError extends Error {
+	constructor(
+		message: string,
+		public modulePath: string,
+		public line?: number,
+		public column?: number
+	) {
+		super(`Error in imported module "${modulePath}": ${message}`);
+		this.name = "ModuleError";
+	}
+}
+
+interface CachedModule {
+	signature: string;
+	context: ExecutionContext;
+}
+
+export class ModuleRegistry {
+	private cache: Map<string, CachedModule> = new Map();
+	private loading: string[] = [];
+
+	// Modules see the library the same way note blocks do
+	constructor(private library?: ExecutionContext) {}
+
+	createLoader(
+		set: ModuleSet,
+		imports: Record<string, string>,
+		limits: ExecutionLimits,
+		useCache = true
+	): ModuleLoader {
+		return {
+			load: (specifier, line, column) =>
+				this.load(
+					set,
+					imports,
+					specifier,
+					limits,
+					useCache,
+					line,
+					column
+				),
+		};
+	}
+
+	clear(): void {
+		this.cache.clear();
+	}
+
+	private load(
+		set: ModuleSet,
+		imports: Record<string, string>,
+		specifier: string,
+		limits: ExecutionLimits,
+		useCache: boolean,
+		line: number,
+		column: number
+	): ExecutionContext {
+		const path = imports[specifier];
+		const module = path ? set.modules[path] : undefined;
+		if (!module) {
+			throw new RuntimeError(
+				`Cannot find module "${specifier}"`,
+				line,
+				column
+			);
+		}
+
+		if (this.loading.includes(module.path)) {
+			const cycle = this.loading.slice(this.loading.indexOf(module.path));
+			throw new RuntimeError(
+				`Circular import: ${[...cycle, module.path].join(" -> ")}`,
+				line,
+				column
+			);
+		}
+
+		const signature = this.getSignature(set, module.path);
+		const cached = this.cache.get(module.path);
+		if (useCache && cached && cached.signature === signature) {
+			return cached.context;
+		}
+
+		this.loading.push(module.path);
+		try {
+			const context = this.evaluateModule(set, module, limits, useCache);
+			this.cache.set(module.path, { signature, context });
+			return context;
+		} finally {
+			this.loading.pop();
+		}
+	}
+
+	private evaluateModule(
+		set: ModuleSet,
+		module: ModuleSource,
+		limits: ExecutionLimits,
+		useCache: boolean
+	): ExecutionContext {
+		const context = new ExecutionContext(this.library);
+		const evaluator = new Evaluator(
+			context,
+			new ExecutionBudget(limits),
+			this.createLoader(set, module.imports, limits, useCache)
+		);
+
+		for (const source of module.sources) {
+			try {
+				const lexer = new Lexer(source);
+				const tokens = lexer.tokenize();
+				const parser = new Parser(tokens);
+				const ast = parser.parse();
+				const [diagnostic] = parser.getDiagnostics();
+				if (diagnostic) {
+					throw diagnostic;
+				}
+
+				for (const statement of ast.statements) {
+					if (isGlobalDefinition(statement)) {
+						evaluator.evaluateStatement(statement);
+					}
+				}
+			} catch (error) {
+				if (error instanceof ModuleError) {
+					throw error;
+				}
+
+				const { line, column } = error as {
+					line?: number;
+					column?: number;
+				};
+				throw new ModuleError(
+					(error as Error).message,
+					module.path,
+					line,
+					column
+				);
+			}
+		}
+
+		return context;
+	}
+
+	// A module's signature covers its own sources and everything it imports,
+	// so editing a transitive dependency also invalidates the cached context
+	private getSignature(set: ModuleSet, path: string): string {
+		const visited = new Set<string>();
+		const parts: string[] = [];
+
+		const visit = (current: string) => {
+			const module = set.modules[current];
+			if (visited.has(current) || !module) {
+				return;
+			}
+			visited.add(current);
+			parts.push(JSON.stringify([current, module.sources]));
+			Object.values(module.imports).forEach(visit);
+		};
+
+		visit(path);
+		return parts.sort().join("\n");
+	}
+}
+
+function isGlobalDefinition(statement: StatementNode): boolean {
+	if (statement.type === "Import") {
+		return true;
+	}
+
+	return (
+		(statement.type === "Variable" || statement.type === "Function") &&
+		statement.isGlobal
+	);
+}
+
+export function findImports(source: string): string[] {
+	try {
+		const lexer = new Lexer(source);
+		const tokens = lexer.tokenize();
+		const parser = new Parser(tokens);
+		const ast = parser.parse();
+
+		return ast.statements
+			.filter((statement) => statement.type === "Import")
+			.map((statement) => (statement as ImportNode).path);
+	} catch {
+		return [];
+	}
+}
@@ -0,0 +1,232 @@
+import { BlockOptions, parseBlockOptions } from "./blockOptions";
+
+export interface NoteBlock {
+	source: string;
+	options: BlockOptions;
+	lineStart: number;
+	lineEnd: number;
+}
+
+interface OpenFence {
+	marker: string;
+	length: number;
+	quoteDepth: number;
+	indent: number;
+	inList: boolean;
+	isLx: boolean;
+	info: string;
+	lineStart: number;
+	lines: string[];
+}
+
+const QUOTE_MARKER = /^[ \t]{0,3}>[ \t]?/;
+const FENCE_OPENING =
+	/^((?:[ \t]*(?:[-+*]|\d{1,9}[.)])[ \t]+)*)([ \t]*)(`{3,}|~{3,})(.*)$/;
+const FENCE_CLOSING = /^([ \t]*)(`{3,}|~{3,})[ \t]*$/;
+
+// Finds every ```lx / ~~~lx fenced block following the CommonMark rules for
+// fence length, indentation and line endings, including fences nested in
+// blockquotes, callouts and list items. Other fences are tracked as well so
+// that lx examples inside them are not mistaken for real blocks
+export function scanLxBlocks(text: string): NoteBlock[] {
+	const lines = text.split(/\r\n|\r|\n/);
+	const blocks: NoteBlock[] = [];
+	let open: OpenFence | null = null;
+
+	for (let index = 0; index < lines.length; index++) {
+		const { depth, rest } = stripQuotes(lines[index]);
+
+		if (open) {
+			const content: string = stripQuotes(
+				lines[index],
+				open.quoteDepth
+			).rest;
+
+			if (
+				depth < open.quoteDepth ||
+				(open.inList &&
+					content.trim() !== "" &&
+					indentWidth(content) < open.indent)
+			) {
+				closeFence(open, index, blocks);
+				open = null;
+			} else if (isClosingFence(content, open)) {
+				closeFence(open, index, blocks);
+				open = null;
+				continue;
+			} else {
+				open.lines.push(stripIndent(content, open.indent));
+				continue;
+			}
+		}
+
+		open = matchOpeningFence(rest, depth, index);
+	}
+
+	if (open) {
+		closeFence(open, lines.length, blocks);
+	}
+
+	return blocks;
+}
+
+// Section info points at a block's fence, or at the whole callout or list
+// that holds it, where only the source tells the blocks apart. Returns the
+// indexes of the blocks that can be the rendered one, searching the whole
+// note when the section has none
+export function findNoteBlocks(
+	blocks: NoteBlock[],
+	source: string,
+	section: { lineStart: number; lineEnd: number } | null,
+	searchNote = true
+): number[] {
+	const matches = (predicate: (block: NoteBlock) => boolean) =>
+		blocks
+			.map((block, index) => (predicate(block) ? index : -1))
+			.filter((index) => index !== -1);
+	const sameSource = (block: NoteBlock) =>
+		block.source.trimEnd() === source.trimEnd();
+
+	if (section) {
+		const atFence = matches(
+			(block) => block.lineStart === section.lineStart
+		);
+		if (atFence.length > 0) {
+			return atFence;
+		}
+
+		const inSection = matches(
+			(block) =>
+				block.lineStart >= section.lineStart &&
+				block.lineStart <= section.lineEnd &&
+				sameSource(block)
+		);
+		if (inSection.length > 0 || !searchNote) {
+			return inSection;
+		}
+	}
+
+	return matches(sameSource);
+}
+
+// Quote markers and list indentation are stripped from a block's source.
+// Returns how much of the note line holding source line `line` (1-based)
+// comes before the source text
+export function getSourceLineIndent(
+	block: NoteBlock,
+	line: number,
+	text: string
+): number {
+	const sourceLine = block.source.split("\n")[line - 1] ?? "";
+	return text.endsWith(sourceLine) ? text.length - sourceLine.length : 0;
+}
+
+function matchOpeningFence(
+	line: string,
+	quoteDepth: number,
+	lineStart: number
+): OpenFence | null {
+	const match = line.match(FENCE_OPENING);
+	if (!match) {
+		return null;
+	}
+
+	const [, listPrefix, spaces, fence, info] = match;
+	if (indentWidth(spaces) > 3) {
+		return null;
+	}
+
+	const marker = fence[0];
+	if (marker === "`" && info.includes("`")) {
+		return null;
+	}
+
+	return {
+		marker,
+		length: fence.length,
+		quoteDepth,
+		indent: indentWidth(listPrefix + spaces),
+		inList: listPrefix.length > 0,
+		isLx: info.trim().split(/\s+/)[0] === "lx",
+		info: info.trim().slice("lx".length),
+		lineStart,
+		lines: [],
+	};
+}
+
+function isClosingFence(line: string, open: OpenFence): boolean {
+	const match = line.match(FENCE_CLOSING);
+	if (!match) {
+		return false;
+	}
+
+	const [, spaces, fence] = match;
+	return (
+		fence[0] === open.marker &&
+		fence.length >= open.length &&
+		indentWidth(spaces) <= open.indent + 3
+	);
+}
+
+function closeFence(
+	open: OpenFence,
+	lineEnd: number,
+	blocks: NoteBlock[]
+): void {
+	if (open.isLx) {
+		blocks.push({
+			source: open.lines.join("\n"),
+			options: parseBlockOptions(open.info),
+			lineStart: open.lineStart,
+			lineEnd,
+		});
+	}
+}
+
+function stripQuotes(
+	line: string,
+	maxDepth = Infinity
+): { depth: number; rest: string } {
+	let depth = 0;
+	let rest = line;
+
+	while (depth < maxDepth) {
+		const match = rest.match(QUOTE_MARKER);
+		if (!match) {
+			break;
+		}
+		rest = rest.slice(match[0].length);
+		depth++;
+	}
+
+	return { depth, rest };
+}
+
+function indentWidth(text: string): number {
+	let width = 0;
+
+	for (const char of text) {
+		width += char === "\t" ? 4 - (width % 4) : 1;
+	}
+
+	return width;
+}
+
+function stripIndent(line: string, indent: number): string {
+	let width = 0;
+	let index = 0;
+
+	while (index < line.length && width < indent) {
+		const char = line[index];
+		if (char === " ") {
+			width++;
+		} else if (char === "\t") {
+			width += 4 - (width % 4);
+		} else {
+			break;
+		}
+		index++;
+	}
+
+	return line.slice(index);
+}
@@ -1,4 +1,4 @@
-import { Token, TokenType } from "./types/lexer.types";
+import { LexerError, Token, TokenType } from "./types/lexer.types";
 import {
 	ProgramNode,
 	StatementNode,
@@ -7,9 +7,14 @@ import {
 	FunctionNode,
 	IfNode,
 	ForNode,
+	ForEachNode,
 	WhileNode,
 	ReturnNode,
+	BreakNode,
+	ContinueNode,
+	ImportNode,
 	FunctionCallNode,
+	LambdaNode,
 	AnonymousFunctionNode,
 	BlockNode,
 	StringNode,
@@ -21,6 +26,7 @@ import {
 	BinaryOpNode,
 	UnaryOpNode,
 	ArrayNode,
+	MapNode,
 	ArrayIndexNode,
 	ArrayIndexAssignmentNode,
 	ParseError,
@@ -30,11 +36,15 @@ import { Lexer } from "./lexer";
 export class Parser {
 	private tokens: Token[];
 	private current: number = 0;
+	private diagnostics: SyntaxDiagnostic[] = [];
+	private topLevelStart = 0;
 
 	constructor(tokens: Token[]) {
 		this.tokens = tokens;
 	}
 
+	// Returns the statements that parsed. Statements with syntax errors are
+	// skipped and reported through getDiagnostics()
 	parse(): ProgramNode {
 		const statements: StatementNode[] = [];
 
@@ -44,20 +54,173 @@ export class Parser {
 				continue;
 			}
 
-			const stmt = this.parseStatement();
+			this.topLevelStart = this.current;
+			const stmt = this.parseStatementOrRecover();
 			if (stmt) {
 				statements.push(stmt);
 			}
+
+			// A stray '}' cannot close anything at the top level
+			if (this.check(TokenType.RBRACE)) {
+				this.advance();
+			}
+		}
+
+		return this.finishNode(
+			{
+				type: "Program",
+				statements,
+				line: 1,
+				column: 1,
+			},
+			0
+		);
+	}
+
+	getDiagnostics(): SyntaxDiagnostic[] {
+		return [...this.diagnostics].sort(
+			(a, b) => a.line - b.line || a.column - b.column
+		);
+	}
+
+	private parseStatementOrRecover(): StatementNode | null {
+		const start = this.current;
+		const reported = this.diagnostics.length;
+
+		try {
+			return this.parseStatement();
+		} catch (error) {
+			if (!(error instanceof ParseError || error instanceof LexerError)) {
+				throw error;
+			}
+
+			// An unclosed '(' or '[' carries the statement over the lines
+			// after it. Those are parsed again on their own, and the bracket
+			// is reported instead of where the statement gave up
+			const bracket = this.findUnclosedBracket(start);
+			if (bracket && bracket.lineEnd < this.current) {
+				this.current = start;
+				this.synchronize();
+
+				const resume = this.peek();
+				this.diagnostics = this.diagnostics.filter(
+					(other, index) =>
+						index < reported ||
+						other.line < resume.line ||
+						(other.line === resume.line &&
+							other.column < resume.column)
+				);
+				this.report(
+					new ParseError(
+						`'${bracket.token.value}' is never closed`,
+						bracket.token.line,
+						bracket.token.column,
+						bracket.token
+					)
+				);
+				return null;
+			}
+
+			// Running into a lexer error reports that error instead, once
+			// synchronize() skips its token
+			if (!this.check(TokenType.ERROR)) {
+				this.report(error);
+			}
+			this.synchronize();
+			return null;
+		}
+	}
+
+	// Finds a '(' or '[' on the first line of the statement at `from` that
+	// nothing after it closes, along with where that line ends
+	private findUnclosedBracket(
+		from: number
+	): { token: Token; lineEnd: number } | null {
+		let lineEnd = -1;
+		let depth = 0;
+		const open: number[] = [];
+
+		for (let index = from; index < this.tokens.length; index++) {
+			const token = this.tokens[index];
+
+			if (lineEnd === -1) {
+				if (token.type === TokenType.NEWLINE && depth === 0) {
+					lineEnd = index;
+				} else if (token.type === TokenType.LBRACE) {
+					depth++;
+				} else if (token.type === TokenType.RBRACE) {
+					depth--;
+				}
+			}
+
+			if (
+				token.type === TokenType.LPAREN ||
+				token.type === TokenType.LBRACKET
+			) {
+				open.push(index);
+			} else if (
+				token.type === TokenType.RPAREN ||
+				token.type === TokenType.RBRACKET
+			) {
+				open.pop();
+			}
+		}
+
+		const unclosed = open.filter(
+			(index) => lineEnd === -1 || index < lineEnd
+		);
+		if (lineEnd === -1 || unclosed.length === 0) {
+			return null;
 		}
 
 		return {
-			type: "Program",
-			statements,
-			line: 1,
-			column: 1,
+			token: this.tokens[unclosed[unclosed.length - 1]],
+			lineEnd,
 		};
 	}
 
+	// Lines that are parsed again can run into the same error
+	private report(diagnostic: SyntaxDiagnostic): void {
+		if (
+			!this.diagnostics.some(
+				(other) => other.message === diagnostic.message
+			)
+		) {
+			this.diagnostics.push(diagnostic);
+		}
+	}
+
+	// Skips to the end of the broken statement: the next newline outside of
+	// braces, or the '}' that closes the enclosing block. Lexer errors on the
+	// way are reported
+	private synchronize(): void {
+		let depth = 0;
+
+		while (!this.isAtEnd()) {
+			const token = this.peek();
+
+			if (token.error) {
+				this.report(token.error);
+			}
+
+			if (token.type === TokenType.NEWLINE && depth === 0) {
+				this.advance();
+				return;
+			}
+
+			if (token.type === TokenType.RBRACE) {
+				if (depth === 0) {
+					return;
+				}
+				depth--;
+			} else if (token.type === TokenType.LBRACE) {
+				depth++;
+			}
+
+			this.advance();
+		}
+	}
+
 	private parseStatement(): StatementNode | null {
 		while (this.check(TokenType.NEWLINE)) {
 			this.advance();
@@ -83,6 +246,10 @@ export class Parser {
 			return this.parseReturnStatement();
 		}
 
+		if (this.check(TokenType.BREAK) || this.check(TokenType.CONTINUE)) {
+			return this.parseLoopControlStatement();
+		}
+
 		if (
 			this.check(TokenType.GLOBAL) &&
 			this.peekNext()?.type === TokenType.EQUALS
@@ -94,7 +261,7 @@ export class Parser {
 			this.advance();
 			this.skipNewlines();
 
-			if (this.check(TokenType.LPAREN)) {
+			if (this.check(TokenType.LPAREN) && this.isLambdaAhead()) {
 				return this.parseFunctionDefinition(
 					name,
 					nameToken.line,
@@ -103,14 +270,14 @@ export class Parser {
 				);
 			} else {
 				const value = this.parseExpression();
-				return {
+				return this.finishNode({
 					type: "Variable",
 					name,
 					value,
 					isGlobal: true,
 					line: nameToken.line,
 					column: nameToken.column,
-				};
+				});
 			}
 		}
 
@@ -120,15 +287,25 @@ export class Parser {
 
 			const nextToken = this.peekNext();
 
-			if (nextToken?.type === TokenType.LBRACKET) {
+			if (name === "@import" && nextToken?.type === TokenType.LPAREN) {
+				return this.parseImportStatement();
+			}
+
+			if (
+				nextToken?.type === TokenType.LBRACKET ||
+				nextToken?.type === TokenType.DOT
+			) {
+				const start = this.current;
 				this.advance();
 
-				const arrayExpr = this.parseArrayIndex({
-					type: "Identifier",
-					name,
-					line: nameToken.line,
-					column: nameToken.column,
-				});
+				const arrayExpr = this.parsePostfix(
+					this.finishNode({
+						type: "Identifier",
+						name,
+						line: nameToken.line,
+						column: nameToken.column,
+					})
+				);
 
 				if (this.check(TokenType.EQUALS)) {
 					this.advance();
@@ -136,17 +313,18 @@ export class Parser {
 					const value = this.parseExpression();
 
 					const arrayIndexNode = arrayExpr as ArrayIndexNode;
-					return {
+					return this.finishNode({
 						type: "ArrayIndexAssignment",
 						array: arrayIndexNode.array,
 						index: arrayIndexNode.index,
 						value,
 						line: nameToken.line,
 						column: nameToken.column,
-					};
-				} else {
-					return arrayExpr;
+					});
 				}
+
+				this.current = start;
+				return this.parseExpression();
 			}
 
 			if (nextToken?.type === TokenType.EQUALS) {
@@ -154,7 +332,7 @@ export class Parser {
 				this.advance();
 				this.skipNewlines();
 
-				if (this.check(TokenType.LPAREN)) {
+				if (this.check(TokenType.LPAREN) && this.isLambdaAhead()) {
 					return this.parseFunctionDefinition(
 						name,
 						nameToken.line,
@@ -163,14 +341,14 @@ export class Parser {
 					);
 				} else {
 					const value = this.parseExpression();
-					return {
+					return this.finishNode({
 						type: "Variable",
 						name,
 						value,
 						isGlobal: false,
 						line: nameToken.line,
 						column: nameToken.column,
-					};
+					});
 				}
 			}
 		}
@@ -190,11 +368,9 @@ export class Parser {
 			? this.parseStyleList()
 			: [];
 
-		this.consume(TokenType.LBRACE, "Expected '{' to start function body");
-		const body = this.parseStatementBlock();
-		this.consume(TokenType.RBRACE, "Expected '}' to end function body");
+		const body = this.parseFunctionBody();
 
-		return {
+		return this.finishNode({
 			type: "Function",
 			name,
 			params,
@@ -203,7 +379,19 @@ export class Parser {
 			isGlobal,
 			line,
 			column,
-		};
+		});
+	}
+
+	private parseFunctionBody(): StatementNode[] {
+		if (this.check(TokenType.ARROW)) {
+			return [this.parseReturnStatement()];
+		}
+
+		this.consume(TokenType.LBRACE, "Expected '{' to start function body");
+		const body = this.parseStatementBlock();
+		this.consume(TokenType.RBRACE, "Expected '}' to end function body");
+
+		return body;
 	}
 
 	private parseIfStatement(): IfNode {
@@ -254,7 +442,7 @@ export class Parser {
 			}
 		}
 
-		return {
+		return this.finishNode({
 			type: "If",
 			condition,
 			then,
@@ -262,22 +450,27 @@ export class Parser {
 			else: elseBlock,
 			line: ifToken.line,
 			column: ifToken.column,
-		};
+		});
 	}
 
-	private parseForStatement(): ForNode {
+	private parseForStatement(): ForNode | ForEachNode {
 		const forToken = this.advance();
 		this.skipNewlines();
 
 		this.consume(TokenType.LPAREN, "Expected '(' after 'for'");
 		this.skipNewlines();
 
+		if (this.isForEachAhead()) {
+			return this.parseForEachStatement(forToken);
+		}
+
 		const init = this.parseStatement();
 		if (!init) {
 			throw new ParseError(
 				"Expected initialization in for loop",
 				forToken.line,
-				forToken.column
+				forToken.column,
+				forToken
 			);
 		}
 		this.skipNewlines();
@@ -302,7 +495,7 @@ export class Parser {
 
 		const body = this.parseBlockOrStatement();
 
-		return {
+		return this.finishNode({
 			type: "For",
 			init,
 			condition,
@@ -310,7 +503,55 @@ export class Parser {
 			body,
 			line: forToken.line,
 			column: forToken.column,
-		};
+		});
+	}
+
+	private isForEachAhead(): boolean {
+		if (!this.check(TokenType.IDENTIFIER)) {
+			return false;
+		}
+
+		if (this.peekNext()?.type === TokenType.IN) {
+			return true;
+		}
+
+		return (
+			this.peekNext()?.type === TokenType.COMMA &&
+			this.peekAt(2)?.type === TokenType.IDENTIFIER &&
+			this.peekAt(3)?.type === TokenType.IN
+		);
+	}
+
+	private parseForEachStatement(forToken: Token): ForEachNode {
+		let indexName: string | undefined;
+		let itemName = this.advance().value;
+
+		if (this.check(TokenType.COMMA)) {
+			this.advance();
+			indexName = itemName;
+			itemName = this.advance().value;
+		}
+
+		this.consume(TokenType.IN, "Expected 'in' after loop variable");
+		this.skipNewlines();
+
+		const iterable = this.parseExpression();
+		this.skipNewlines();
+
+		this.consume(TokenType.RPAREN, "Expected ')' after for loop header");
+		this.skipNewlines();
+
+		const body = this.parseBlockOrStatement();
+
+		return this.finishNode({
+			type: "ForEach",
+			indexName,
+			itemName,
+			iterable,
+			body,
+			line: forToken.line,
+			column: forToken.column,
+		});
 	}
 
 	private parseWhileStatement(): WhileNode {
@@ -326,13 +567,13 @@ export class Parser {
 
 		const body = this.parseBlockOrStatement();
 
-		return {
+		return this.finishNode({
 			type: "While",
 			condition,
 			body,
 			line: whileToken.line,
 			column: whileToken.column,
-		};
+		});
 	}
 
 	private parseReturnStatement(): ReturnNode {
@@ -344,21 +585,74 @@ export class Parser {
 			this.check(TokenType.RBRACE) ||
 			this.isAtEnd()
 		) {
-			return {
+			return this.finishNode({
 				type: "Return",
 				line: arrowToken.line,
 				column: arrowToken.column,
-			};
+			});
 		}
 
 		const value = this.parseExpression();
 
-		return {
+		return this.finishNode({
 			type: "Return",
 			value,
 			line: arrowToken.line,
 			column: arrowToken.column,
-		};
+		});
+	}
+
+	private parseLoopControlStatement(): BreakNode | ContinueNode {
+		const token = this.advance();
+
+		return this.finishNode<BreakNode | ContinueNode>(
+			{
+				type: token.type === TokenType.BREAK ? "Break" : "Continue",
+				line: token.line,
+				column: token.column,
+			},
+			token.start
+		);
+	}
+
+	// Imports are global definitions, which compiling the note collects from
+	// the top level only
+	private parseImportStatement(): ImportNode {
+		if (this.current !== this.topLevelStart) {
+			const token = this.peek();
+			throw new ParseError(
+				"'@import' can only be used at the top level of a block",
+				token.line,
+				token.column,
+				token
+			);
+		}
+
+		const importToken = this.advance();
+		this.consume(TokenType.LPAREN, "Expected '(' after '@import'");
+
+		if (
+			!this.check(TokenType.STRING) &&
+			!this.check(TokenType.LITERAL_STRING)
+		) {
+			const token = this.peek();
+			throw new ParseError(
+				"Expected module path string in '@import'",
+				token.line,
+				token.column,
+				token
+			);
+		}
+
+		const path = this.advance().value.trim();
+		this.consume(TokenType.RPAREN, "Expected ')' after module path");
+
+		return this.finishNode({
+			type: "Import",
+			path,
+			line: importToken.line,
+			column: importToken.column,
+		});
 	}
 
 	private parseBlockOrStatement(): StatementNode[] {
@@ -382,7 +676,7 @@ export class Parser {
 				continue;
 			}
 
-			const stmt = this.parseStatement();
+			const stmt = this.parseStatementOrRecover();
 			if (stmt) {
 				statements.push(stmt);
 			}
@@ -412,7 +706,8 @@ export class Parser {
 				throw new ParseError(
 					"Expected parameter name (identifier)",
 					this.peek().line,
-					this.peek().column
+					this.peek().column,
+					this.peek()
 				);
 			}
 		} while (this.check(TokenType.COMMA));
@@ -443,7 +738,8 @@ export class Parser {
 				throw new ParseError(
 					"Expected style class name",
 					this.peek().line,
-					this.peek().column
+					this.peek().column,
+					this.peek()
 				);
 			}
 		} while (this.check(TokenType.COMMA));
@@ -465,14 +761,17 @@ export class Parser {
 			this.skipNewlines();
 			const right = this.parseLogicalAnd();
 
-			left = {
-				type: "BinaryOp",
-				operator: "||",
-				left,
-				right,
-				line: operator.line,
-				column: operator.column,
-			};
+			left = this.finishNode(
+				{
+					type: "BinaryOp",
+					operator: "||",
+					left,
+					right,
+					line: operator.line,
+					column: operator.column,
+				},
+				left.start
+			);
 		}
 
 		return left;
@@ -486,14 +785,17 @@ export class Parser {
 			this.skipNewlines();
 			const right = this.parseComparison();
 
-			left = {
-				type: "BinaryOp",
-				operator: "&&",
-				left,
-				right,
-				line: operator.line,
-				column: operator.column,
-			};
+			left = this.finishNode(
+				{
+					type: "BinaryOp",
+					operator: "&&",
+					left,
+					right,
+					line: operator.line,
+					column: operator.column,
+				},
+				left.start
+			);
 		}
 
 		return left;
@@ -514,20 +816,23 @@ export class Parser {
 			this.skipNewlines();
 			const right = this.parseAdditive();
 
-			left = {
-				type: "BinaryOp",
-				operator: operator.value as
-					| "=="
-					| "!="
-					| "<"
-					| "<="
-					| ">"
-					| ">=",
-				left,
-				right,
-				line: operator.line,
-				column: operator.column,
-			};
+			left = this.finishNode(
+				{
+					type: "BinaryOp",
+					operator: operator.value as
+						| "=="
+						| "!="
+						| "<"
+						| "<="
+						| ">"
+						| ">=",
+					left,
+					right,
+					line: operator.line,
+					column: operator.column,
+				},
+				left.start
+			);
 		}
 
 		return left;
@@ -541,14 +846,17 @@ export class Parser {
 			this.skipNewlines();
 			const right = this.parseMultiplicative();
 
-			left = {
-				type: "BinaryOp",
-				operator: operator.value as "+" | "-",
-				left,
-				right,
-				line: operator.line,
-				column: operator.column,
-			};
+			left = this.finishNode(
+				{
+					type: "BinaryOp",
+					operator: operator.value as "+" | "-",
+					left,
+					right,
+					line: operator.line,
+					column: operator.column,
+				},
+				left.start
+			);
 		}
 
 		return left;
@@ -566,14 +874,17 @@ export class Parser {
 			this.skipNewlines();
 			const right = this.parseUnary();
 
-			left = {
-				type: "BinaryOp",
-				operator: operator.value as "*" | "/" | "%",
-				left,
-				right,
-				line: operator.line,
-				column: operator.column,
-			};
+			left = this.finishNode(
+				{
+					type: "BinaryOp",
+					operator: operator.value as "*" | "/" | "%",
+					left,
+					right,
+					line: operator.line,
+					column: operator.column,
+				},
+				left.start
+			);
 		}
 
 		return left;
@@ -594,24 +905,25 @@ export class Parser {
 				throw new ParseError(
 					`Expected identifier after ${operator.value}`,
 					this.peek().line,
-					this.peek().column
+					this.peek().column,
+					this.peek()
 				);
 			}
 
 			const operand = this.advance();
-			return {
+			return this.finishNode({
 				type: "UnaryOp",
 				operator: operator.value as "++" | "--",
-				operand: {
+				operand: this.finishNode({
 					type: "Identifier",
 					name: operand.value,
 					line: operand.line,
 					column: operand.column,
-				},
+				}),
 				prefix: true,
 				line: operator.line,
 				column: operator.column,
-			};
+			});
 		}
 
 		if (this.check(TokenType.NOT)) {
@@ -619,14 +931,14 @@ export class Parser {
 			this.skipNewlines();
 			const operand = this.parseUnary();
 
-			return {
+			return this.finishNode({
 				type: "UnaryOp",
 				operator: "!",
 				operand,
 				prefix: true,
 				line: operator.line,
 				column: operator.column,
-			};
+			});
 		}
 
 		if (this.check(TokenType.MINUS)) {
@@ -634,14 +946,14 @@ export class Parser {
 			this.skipNewlines();
 			const operand = this.parseUnary();
 
-			return {
+			return this.finishNode({
 				type: "UnaryOp",
 				operator: "-",
 				operand,
 				prefix: true,
 				line: operator.line,
 				column: operator.column,
-			};
+			});
 		}
 
 		const expr = this.parsePrimary();
@@ -652,14 +964,14 @@ export class Parser {
 				this.check(TokenType.MINUS_MINUS))
 		) {
 			const operator = this.advance();
-			return {
+			return this.finishNode({
 				type: "UnaryOp",
 				operator: operator.value as "++" | "--",
 				operand: expr,
 				prefix: false,
 				line: expr.line,
 				column: expr.column,
-			};
+			});
 		}
 
 		return expr;
@@ -667,6 +979,10 @@ export class Parser {
 
 	private parsePrimary(): ExpressionNode {
 		if (this.check(TokenType.LPAREN)) {
+			if (this.isLambdaAhead()) {
+				return this.parseLambda();
+			}
+
 			this.advance();
 			this.skipNewlines();
 			const expr = this.parseExpression();
@@ -677,33 +993,33 @@ export class Parser {
 
 		if (this.check(TokenType.BOOLEAN)) {
 			const token = this.advance();
-			return {
+			return this.finishNode({
 				type: "Boolean",
 				value: token.value === "true",
 				line: token.line,
 				column: token.column,
-			};
+			});
 		}
 
 		if (this.check(TokenType.NUMBER)) {
 			const token = this.advance();
-			return {
+			return this.finishNode({
 				type: "Number",
 				value: parseFloat(token.value),
 				line: token.line,
 				column: token.column,
-			};
+			});
 		}
 
 		if (this.check(TokenType.STRING)) {
 			const token = this.advance();
-			return {
+			return this.finishNode({
 				type: "String",
 				value: token.value,
 				isMarkdown: true,
 				line: token.line,
 				column: token.column,
-			};
+			});
 		}
 
 		if (this.check(TokenType.TEMPLATE_STRING)) {
@@ -713,13 +1029,13 @@ export class Parser {
 
 		if (this.check(TokenType.LITERAL_STRING)) {
 			const token = this.advance();
-			return {
+			return this.finishNode({
 				type: "String",
 				value: token.value,
 				isMarkdown: false,
 				line: token.line,
 				column: token.column,
-			};
+			});
 		}
 
 		if (this.check(TokenType.GLOBAL)) {
@@ -733,21 +1049,23 @@ export class Parser {
 				);
 			}
 
-			if (this.check(TokenType.LBRACKET)) {
-				return this.parseArrayIndex({
-					type: "Identifier",
-					name: token.value,
-					line: token.line,
-					column: token.column,
-				});
+			if (this.check(TokenType.LBRACKET) || this.check(TokenType.DOT)) {
+				return this.parsePostfix(
+					this.finishNode({
+						type: "Identifier",
+						name: token.value,
+						line: token.line,
+						column: token.column,
+					})
+				);
 			}
 
-			return {
+			return this.finishNode({
 				type: "Identifier",
 				name: token.value,
 				line: token.line,
 				column: token.column,
-			};
+			});
 		}
 
 		if (this.check(TokenType.IDENTIFIER)) {
@@ -761,21 +1079,23 @@ export class Parser {
 				);
 			}
 
-			if (this.check(TokenType.LBRACKET)) {
-				return this.parseArrayIndex({
-					type: "Identifier",
-					name: token.value,
-					line: token.line,
-					column: token.column,
-				});
+			if (this.check(TokenType.LBRACKET) || this.check(TokenType.DOT)) {
+				return this.parsePostfix(
+					this.finishNode({
+						type: "Identifier",
+						name: token.value,
+						line: token.line,
+						column: token.column,
+					})
+				);
 			}
 
-			return {
+			return this.finishNode({
 				type: "Identifier",
 				name: token.value,
 				line: token.line,
 				column: token.column,
-			};
+			});
 		}
 
 		if (this.check(TokenType.AT)) {
@@ -788,7 +1108,8 @@ export class Parser {
 			throw new ParseError(
 				"Unexpected '@' token - expected identifier or function call",
 				token.line,
-				token.column
+				token.column,
+				token
 			);
 		}
 
@@ -797,6 +1118,9 @@ export class Parser {
 		}
 
 		if (this.check(TokenType.LBRACE)) {
+			if (this.isMapLiteralAhead()) {
+				return this.parseMapLiteral();
+			}
 			return this.parseBlock();
 		}
 
@@ -804,7 +1128,8 @@ export class Parser {
 		throw new ParseError(
 			`Unexpected token: ${token.type} ('${token.value}')`,
 			token.line,
-			token.column
+			token.column,
+			token
 		);
 	}
 
@@ -815,7 +1140,8 @@ export class Parser {
 			throw new ParseError(
 				"Template string token missing parts",
 				token.line,
-				token.column
+				token.column,
+				token
 			);
 		}
 
@@ -823,20 +1149,24 @@ export class Parser {
 			if (part.type === "text") {
 				parts.push({ type: "text", value: part.value });
 			} else {
-				const exprLexer = new Lexer(part.value);
+				const exprLexer = new Lexer(part.value, part.origin);
 				const exprTokens = exprLexer.tokenize();
+				const invalid = exprTokens.find((token) => token.error);
+				if (invalid?.error) {
+					throw invalid.error;
+				}
 				const exprParser = new Parser(exprTokens);
 				const expr = exprParser.parseExpression();
 				parts.push({ type: "expression", expr });
 			}
 		}
 
-		return {
+		return this.finishNode({
 			type: "TemplateString",
 			parts,
 			line: token.line,
 			column: token.column,
-		};
+		});
 	}
 
 	private parseFunctionCall(
@@ -846,13 +1176,13 @@ export class Parser {
 	): FunctionCallNode {
 		const args = this.parseArgumentList();
 
-		return {
+		return this.finishNode({
 			type: "FunctionCall",
 			name,
 			args,
 			line,
 			column,
-		};
+		});
 	}
 
 	private parseArgumentList(): ExpressionNode[] {
@@ -902,13 +1232,65 @@ export class Parser {
 			"Expected ')' to complete anonymous function invocation"
 		);
 
-		return {
+		return this.finishNode({
 			type: "AnonymousFunction",
 			args,
 			styles,
 			line,
 			column,
-		};
+		});
+	}
+
+	private isLambdaAhead(): boolean {
+		let offset = 1;
+
+		if (this.peekAt(offset)?.type !== TokenType.RPAREN) {
+			while (this.peekAt(offset)?.type === TokenType.IDENTIFIER) {
+				offset++;
+				if (this.peekAt(offset)?.type !== TokenType.COMMA) {
+					break;
+				}
+				offset++;
+			}
+
+			if (this.peekAt(offset)?.type !== TokenType.RPAREN) {
+				return false;
+			}
+		}
+		offset++;
+
+		if (this.peekAt(offset)?.type === TokenType.LBRACKET) {
+			while (
+				this.peekAt(offset) &&
+				this.peekAt(offset)?.type !== TokenType.RBRACKET
+			) {
+				offset++;
+			}
+			offset++;
+		}
+
+		const next = this.peekAt(offset)?.type;
+		return next === TokenType.LBRACE || next === TokenType.ARROW;
+	}
+
+	private parseLambda(): LambdaNode {
+		const token = this.peek();
+		const params = this.parseParameterList();
+
+		const styles = this.check(TokenType.LBRACKET)
+			? this.parseStyleList()
+			: [];
+
+		const body = this.parseFunctionBody();
+
+		return this.finishNode({
+			type: "Lambda",
+			params,
+			styles,
+			body,
+			line: token.line,
+			column: token.column,
+		});
 	}
 
 	private parseBlock(): BlockNode {
@@ -925,7 +1307,7 @@ export class Parser {
 				continue;
 			}
 
-			const stmt = this.parseStatement();
+			const stmt = this.parseStatementOrRecover();
 			if (stmt) {
 				body.push(stmt);
 			}
@@ -937,13 +1319,13 @@ export class Parser {
 			? this.parseStyleList()
 			: [];
 
-		return {
+		return this.finishNode({
 			type: "Block",
 			body,
 			styles,
 			line,
 			column,
-		};
+		});
 	}
 
 	private parseArrayLiteral(): ArrayNode {
@@ -957,12 +1339,12 @@ export class Parser {
 
 		if (this.check(TokenType.RBRACKET)) {
 			this.advance();
-			return {
+			return this.finishNode({
 				type: "Array",
 				elements,
 				line,
 				column,
-			};
+			});
 		}
 
 		while (!this.check(TokenType.RBRACKET) && !this.isAtEnd()) {
@@ -977,19 +1359,99 @@ export class Parser {
 				throw new ParseError(
 					"Expected ',' or ']' in array literal",
 					this.peek().line,
-					this.peek().column
+					this.peek().column,
+					this.peek()
 				);
 			}
 		}
 
 		this.consume(TokenType.RBRACKET, "Expected ']' after array elements");
 
-		return {
+		return this.finishNode({
 			type: "Array",
 			elements,
 			line,
 			column,
-		};
+		});
+	}
+
+	private isMapLiteralAhead(): boolean {
+		let offset = 1;
+		while (this.peekAt(offset)?.type === TokenType.NEWLINE) {
+			offset++;
+		}
+
+		const token = this.peekAt(offset);
+		if (token?.type === TokenType.RBRACE) {
+			// `{}` is an empty map unless a style list makes it an empty block
+			return this.peekAt(offset + 1)?.type !== TokenType.LBRACKET;
+		}
+
+		return (
+			(token?.type === TokenType.NAME ||
+				token?.type === TokenType.STRING) &&
+			this.peekAt(offset + 1)?.type === TokenType.COLON
+		);
+	}
+
+	private parseMapLiteral(): MapNode {
+		const token = this.advance();
+		const line = token.line;
+		const column = token.column;
+
+		this.skipNewlines();
+
+		const entries: MapNode["entries"] = [];
+
+		while (!this.check(TokenType.RBRACE) && !this.isAtEnd()) {
+			if (!this.check(TokenType.NAME) && !this.check(TokenType.STRING)) {
+				throw new ParseError(
+					"Expected key name in map literal",
+					this.peek().line,
+					this.peek().column,
+					this.peek()
+				);
+			}
+
+			const key = this.advance().value;
+			this.consume(TokenType.COLON, "Expected ':' after map key");
+			this.skipNewlines();
+
+			const value = this.parseExpression();
+			entries.push({ key, value });
+			this.skipNewlines();
+
+			if (this.check(TokenType.COMMA)) {
+				this.advance();
+				this.skipNewlines();
+			} else if (!this.check(TokenType.RBRACE)) {
+				throw new ParseError(
+					"Expected ',' or '}' in map literal",
+					this.peek().line,
+					this.peek().column,
+					this.peek()
+				);
+			}
+		}
+
+		this.consume(TokenType.RBRACE, "Expected '}' after map entries");
+
+		return this.finishNode({
+			type: "Map",
+			entries,
+			line,
+			column,
+		});
+	}
+
+	private parsePostfix(expr: ExpressionNode): ExpressionNode {
+		while (this.check(TokenType.LBRACKET) || this.check(TokenType.DOT)) {
+			expr = this.check(TokenType.DOT)
+				? this.parseMemberAccess(expr)
+				: this.parseArrayIndex(expr);
+		}
+
+		return expr;
 	}
 
 	private parseArrayIndex(array: ExpressionNode): ArrayIndexNode {
@@ -1003,19 +1465,64 @@ export class Parser {
 
 		this.consume(TokenType.RBRACKET, "Expected ']' after array index");
 
-		const indexNode: ArrayIndexNode = {
-			type: "ArrayIndex",
-			array,
-			index,
-			line,
-			column,
-		};
+		return this.finishNode(
+			{
+				type: "ArrayIndex",
+				array,
+				index,
+				line,
+				column,
+			},
+			array.start
+		);
+	}
 
-		if (this.check(TokenType.LBRACKET)) {
-			return this.parseArrayIndex(indexNode);
+	private parseMemberAccess(object: ExpressionNode): ArrayIndexNode {
+		const dotToken = this.advance();
+		const keyToken = this.consume(
+			TokenType.NAME,
+			"Expected key name after '.'"
+		);
+
+		return this.finishNode(
+			{
+				type: "ArrayIndex",
+				array: object,
+				index: this.finishNode({
+					type: "String",
+					value: keyToken.value,
+					isMarkdown: false,
+					line: keyToken.line,
+					column: keyToken.column,
+				}),
+				line: dotToken.line,
+				column: dotToken.column,
+			},
+			object.start
+		);
+	}
+
+	// Records the node's source span, ending at the last consumed token. The
+	// start defaults to the token the node's line and column point at
+	private finishNode<T extends ProgramNode | StatementNode | ExpressionNode>(
+		node: T,
+		start = this.findTokenStart(node.line, node.column)
+	): T {
+		if (node.start === undefined) {
+			node.start = start;
+			node.end = this.current > 0 ? this.previous().end : start;
 		}
+		return node;
+	}
 
-		return indexNode;
+	private findTokenStart(line: number, column: number): number | undefined {
+		for (let index = this.current - 1; index >= 0; index--) {
+			const token = this.tokens[index];
+			if (token.line === line && token.column === column) {
+				return token.start;
+			}
+		}
+		return undefined;
 	}
 
 	private check(type: TokenType): boolean {
@@ -1035,7 +1542,7 @@ export class Parser {
 		}
 
 		const token = this.peek();
-		throw new ParseError(message, token.line, token.column);
+		throw new ParseError(message, token.line, token.column, token);
 	}
 
 	private advance(): Token {
@@ -1054,13 +1561,29 @@ export class Parser {
 	}
 
 	private peekNext(): Token | null {
-		if (this.current + 1 >= this.tokens.length) {
+		return this.peekAt(1);
+	}
+
+	private peekAt(offset: number): Token | null {
+		if (this.current + offset >= this.tokens.length) {
 			return null;
 		}
-		return this.tokens[this.current + 1];
+		return this.tokens[this.current + offset];
 	}
 
 	private previous(): Token {
 		return this.tokens[this.current - 1];
 	}
 }
+
+export type SyntaxDiagnostic = ParseError | LexerError;
+
+export interface ParsedProgram {
+	program: ProgramNode;
+	diagnostics: SyntaxDiagnostic[];
+}
+
+export function parseProgram(source: string): ParsedProgram {
+	const parser = new Parser(new Lexer(source).tokenize());
+	return { program: parser.parse(), diagnostics: parser.getDiagnostics() };
+}
@@ -1,8 +1,21 @@
 import { App, Component, MarkdownRenderer } from "obsidian";
-import { EvaluatedValue } from "./evaluator";
+import { BlockOptions, DEFAULT_BLOCK_OPTIONS } from "./blockOptions";
+import { EvaluatedValue, FunctionValue, MapValue } from "./evaluator";
+import { SerializedError, StatementError } from "./types/runtime.types";
+import { AnalysisWarning } from "./types/analyzer.types";
+import { formatCodeFrame, resolveLocation } from "./codeFrame";
 import { DynamicStyleManager } from "./styleManager";
 import { StyleParser } from "./utilityClasses";
 
+// Moves the editor to a 1-based line and column of the block's source
+export type ErrorNavigator = (line: number, column: number) => void;
+
+interface RenderContext {
+	sourcePath: string;
+	literal: boolean;
+	component: Component;
+}
+
 export class Renderer {
 	constructor(private app: App, private styleManager: DynamicStyleManager) {}
 
@@ -10,41 +23,115 @@ export class Renderer {
 		results: EvaluatedValue[],
 		container: HTMLElement,
 		sourcePath: string,
-		sourceCode?: string
+		component: Component,
+		sourceCode?: string,
+		options: BlockOptions = DEFAULT_BLOCK_OPTIONS,
+		statementErrors: StatementError[] = [],
+		navigate?: ErrorNavigator
 	): Promise<void> {
 		container.empty();
-
-		if (results.length === 0) {
-			if (sourceCode) {
-				this.renderEmptyBlockPreview(sourceCode, container);
+		const output = this.createOutputContainer(
+			container,
+			sourceCode,
+			options
+		);
+
+		if (results.length === 0 && statementErrors.length === 0) {
+			if (sourceCode && !options.sideBySide) {
+				this.renderEmptyBlockPreview(sourceCode, output);
 			}
 			return;
 		}
 
-		for (const result of results) {
-			await this.renderValue(result, container, sourcePath);
+		const context: RenderContext = {
+			sourcePath,
+			literal: options.literal,
+			component,
+		};
+
+		const renderErrorsAt = (index: number) => {
+			for (const statementError of statementErrors) {
+				if (statementError.index === index) {
+					this.renderErrorMarker(
+						statementError.error,
+						output,
+						sourceCode,
+						navigate
+					);
+				}
+			}
+		};
+
+		for (let index = 0; index < results.length; index++) {
+			renderErrorsAt(index);
+			await this.renderValue(results[index], output, context);
+		}
+		renderErrorsAt(results.length);
+	}
+
+	// Wraps the output in a titled frame and/or a source-and-output layout
+	// when the block's fence options ask for it
+	private createOutputContainer(
+		container: HTMLElement,
+		sourceCode: string | undefined,
+		options: BlockOptions
+	): HTMLElement {
+		let output = container;
+
+		if (options.title !== undefined) {
+			const frame = output.createEl("div", { cls: "lx-frame" });
+			frame.createEl("div", {
+				cls: "lx-frame-title",
+				text: options.title,
+			});
+			output = frame.createEl("div", { cls: "lx-frame-body" });
+		}
+
+		if (options.sideBySide && sourceCode !== undefined) {
+			const columns = output.createEl("div", {
+				cls: "lx-side-by-side",
+			});
+			const pre = columns.createEl("pre", {
+				cls: "lx-side-by-side-source",
+			});
+			pre.createEl("code", { text: sourceCode });
+			output = columns.createEl("div", {
+				cls: "lx-side-by-side-output",
+			});
 		}
+
+		return output;
 	}
 
 	private async renderValue(
 		value: EvaluatedValue,
 		container: HTMLElement,
-		sourcePath: string
+		context: RenderContext
 	): Promise<void> {
-		if (Array.isArray(value.value)) {
-			this.renderArray(value.value, container);
+		if (Array.isArray(value.value) || value.value instanceof Map) {
+			this.renderCollection(value, container);
 			return;
 		}
 
 		if (value.children && value.children.length > 0) {
-			await this.renderValueWithChildren(value, container, sourcePath);
+			await this.renderValueWithChildren(
+				value.children,
+				value.styles,
+				container,
+				context
+			);
 		} else if (value.styles && value.styles.length > 0) {
-			await this.renderStyledValue(value, container, sourcePath);
+			await this.renderStyledValue(
+				value,
+				value.styles,
+				container,
+				context
+			);
 		} else {
 			const stringValue = String(value.value);
 
-			if (value.isMarkdown) {
-				await this.renderMarkdown(stringValue, container, sourcePath);
+			if (value.isMarkdown && !context.literal) {
+				await this.renderMarkdown(stringValue, container, context);
 			} else {
 				this.renderLiteral(stringValue, container);
 			}
@@ -52,41 +139,32 @@ export class Renderer {
 	}
 
 	private async renderValueWithChildren(
-		value: EvaluatedValue,
+		children: EvaluatedValue[],
+		styles: string[] | undefined,
 		container: HTMLElement,
-		sourcePath: string
+		context: RenderContext
 	): Promise<void> {
 		let wrapper = container;
-		if (value.styles && value.styles.length > 0) {
-			const className = StyleParser.generateClassName();
-
-			const cssRule = StyleParser.createStyleRule(
-				className,
-				value.styles
-			);
-
-			this.styleManager.addCustomStyle(className, cssRule);
+		if (styles && styles.length > 0) {
+			const className = this.addStyle(styles, context.component);
 
 			wrapper = container.createEl("div", {
 				cls: className,
 			});
 		}
 
-		for (const child of value.children!) {
-			await this.renderValue(child, wrapper, sourcePath);
+		for (const child of children) {
+			await this.renderValue(child, wrapper, context);
 		}
 	}
 
 	private async renderStyledValue(
 		value: EvaluatedValue,
+		styles: string[],
 		container: HTMLElement,
-		sourcePath: string
+		context: RenderContext
 	): Promise<void> {
-		const className = StyleParser.generateClassName();
-
-		const cssRule = StyleParser.createStyleRule(className, value.styles!);
-
-		this.styleManager.addCustomStyle(className, cssRule);
+		const className = this.addStyle(styles, context.component);
 
 		const wrapper = container.createEl("div", {
 			cls: className,
@@ -94,34 +172,52 @@ export class Renderer {
 
 		const stringValue = String(value.value);
 
-		if (value.isMarkdown) {
-			await this.renderMarkdown(stringValue, wrapper, sourcePath);
+		if (value.isMarkdown && !context.literal) {
+			await this.renderMarkdown(stringValue, wrapper, context);
 		} else {
 			this.renderLiteral(stringValue, wrapper);
 		}
 	}
 
+	// Class names are hashes of the CSS, so a name taken by other styles is
+	// numbered until it is free or holds the same rule
+	private addStyle(styles: string[], component: Component): string {
+		const baseName = StyleParser.generateClassName(styles);
+		let className = baseName;
+		let suffix = 1;
+
+		while (
+			!this.styleManager.addCustomStyle(
+				className,
+				StyleParser.createStyleRule(className, styles)
+			)
+		) {
+			className = `${baseName}-${++suffix}`;
+		}
+
+		component.register(() =>
+			this.styleManager.removeCustomStyle(className)
+		);
+		return className;
+	}
+
 	private async renderMarkdown(
 		markdown: string,
 		container: HTMLElement,
-		sourcePath: string
+		context: RenderContext
 	): Promise<void> {
 		const wrapper = container.createEl("div", {
 			cls: "lx-markdown-output",
 		});
 
-		const component = new Component();
-
 		try {
 			await MarkdownRenderer.render(
 				this.app,
 				markdown,
 				wrapper,
-				sourcePath,
-				component
+				context.sourcePath,
+				context.component
 			);
-
-			component.load();
 		} catch (error) {
 			console.error("Failed to render markdown:", error);
 			wrapper.textContent = markdown;
@@ -137,27 +233,43 @@ export class Renderer {
 		code.textContent = text;
 	}
 
-	private renderArray(array: EvaluatedValue[], container: HTMLElement): void {
-		const arrayString = this.arrayToString(array);
-
+	private renderCollection(
+		value: EvaluatedValue,
+		container: HTMLElement
+	): void {
 		const pre = container.createEl("pre", {
 			cls: "lx-literal-output",
 		});
 
 		const code = pre.createEl("code");
-		code.textContent = arrayString;
+		code.textContent = this.valueToString(value);
+	}
+
+	private valueToString(value: EvaluatedValue): string {
+		if (Array.isArray(value.value)) {
+			return this.arrayToString(value.value);
+		}
+		if (value.value instanceof Map) {
+			return this.mapToString(value.value);
+		}
+		if (value.value instanceof FunctionValue) {
+			return String(value.value);
+		}
+		return JSON.stringify(value.value);
 	}
 
 	private arrayToString(array: EvaluatedValue[]): string {
-		const elements = array.map((elem) => {
-			if (Array.isArray(elem.value)) {
-				return this.arrayToString(elem.value as EvaluatedValue[]);
-			}
-			return JSON.stringify(elem.value);
-		});
+		const elements = array.map((elem) => this.valueToString(elem));
 		return `[${elements.join(", ")}]`;
 	}
 
+	private mapToString(map: MapValue): string {
+		const entries = Array.from(map).map(
+			([key, elem]) => `${key}: ${this.valueToString(elem)}`
+		);
+		return `{${entries.join(", ")}}`;
+	}
+
 	private renderEmptyBlockPreview(
 		sourceCode: string,
 		container: HTMLElement
@@ -171,16 +283,122 @@ export class Renderer {
 		code.textContent = trunc;
 	}
 
-	renderError(error: Error, container: HTMLElement): void {
+	private renderErrorMarker(
+		error: SerializedError,
+		container: HTMLElement,
+		sourceCode?: string,
+		navigate?: ErrorNavigator
+	): void {
+		const marker = container.createEl("div", {
+			cls: "lx-error lx-inline-error",
+		});
+		this.renderErrorDetails(error, marker, sourceCode, navigate);
+	}
+
+	private renderErrorDetails(
+		error: Omit<SerializedError, "name">,
+		container: HTMLElement,
+		sourceCode?: string,
+		navigate?: ErrorNavigator,
+		messageClass = "lx-error-message"
+	): void {
+		const message = container.createEl("pre", {
+			cls: messageClass,
+			text: error.message,
+		});
+
+		// Errors from imported modules point into another file's source
+		if (
+			sourceCode === undefined ||
+			error.modulePath ||
+			error.line === undefined ||
+			error.column === undefined
+		) {
+			return;
+		}
+
+		const location = {
+			line: error.line,
+			column: error.column,
+			start: error.start,
+			end: error.end,
+		};
+		const frame = formatCodeFrame(sourceCode, location);
+		const lines = [message];
+
+		if (frame) {
+			lines.push(
+				container.createEl("pre", {
+					cls: "lx-code-frame",
+					text: frame,
+				})
+			);
+		}
+
+		if (navigate) {
+			const { line, column } = resolveLocation(sourceCode, location);
+			for (const el of lines) {
+				el.addClass("lx-error-link");
+				el.setAttribute("aria-label", `Go to line ${line}`);
+				el.addEventListener("click", () => navigate(line, column));
+			}
+		}
+	}
+
+	renderError(
+		error: Error,
+		container: HTMLElement,
+		options: BlockOptions = DEFAULT_BLOCK_OPTIONS,
+		sourceCode?: string,
+		navigate?: ErrorNavigator
+	): void {
 		container.empty();
+		const output = this.createOutputContainer(
+			container,
+			sourceCode,
+			options
+		);
 
-		const errorDiv = container.createEl("div", {
+		const errorDiv = output.createEl("div", {
 			cls: "lx-error",
 		});
-		const errorMessage = errorDiv.createEl("pre", {
-			cls: "lx-error-message",
+
+		this.renderErrorDetails(
+			error as Error & Partial<SerializedError>,
+			errorDiv,
+			sourceCode,
+			navigate
+		);
+	}
+
+	// Appended below the block's output, collapsed so that warnings do not
+	// push the rendered content around
+	renderWarnings(
+		warnings: AnalysisWarning[],
+		container: HTMLElement,
+		sourceCode?: string,
+		navigate?: ErrorNavigator
+	): void {
+		if (warnings.length === 0) {
+			return;
+		}
+
+		const strip = container.createEl("details", { cls: "lx-warnings" });
+		strip.createEl("summary", {
+			cls: "lx-warnings-summary",
+			text: `${warnings.length} warning${
+				warnings.length === 1 ? "" : "s"
+			}`,
 		});
 
-		errorMessage.textContent = error.message;
+		for (const warning of warnings) {
+			this.renderErrorDetails(
+				warning,
+				strip.createDiv({ cls: "lx-warning" }),
+				sourceCode,
+				navigate,
+				"lx-warning-message"
+			);
+		}
 	}
 }
@@ -0,0 +1,569 @@
+import { Analyzer } from "./analyzer";
+import { ParsedProgram, parseProgram } from "./parser";
+import {
+	EvaluatedValue,
+	Evaluator,
+	ExecutionBudget,
+	ExecutionContext,
+	ExecutionLimitError,
+	FunctionDefinition,
+	FunctionValue,
+	GlobalAccessTracker,
+	GlobalDeclaration,
+} from "./evaluator";
+import { ProgramNode, StatementNode } from "./types/ast.types";
+import { AnalysisWarning } from "./types/analyzer.types";
+import { ModuleRegistry } from "./modules";
+import { LRUCache } from "./lruCache";
+import {
+	BlockDependencies,
+	CompileRequest,
+	EvaluateRequest,
+	GlobalNames,
+	LibraryRequest,
+	RuntimeRequest,
+	RuntimeResponse,
+	SerializedError,
+	StatementError,
+} from "./types/runtime.types";
+
+const PROGRAM_CACHE_SIZE = 500;
+const RESULT_CACHE_SIZE = 200;
+
+// A cached evaluation stays valid while every global the block read still
+// has the value it saw, and every global it wrote still holds what it wrote
+interface CachedResult {
+	results: EvaluatedValue[];
+	reads: Map<string, string>;
+	writes: Map<string, string>;
+	dependencies: BlockDependencies;
+}
+
+export class MDLXRuntime {
+	private globalContexts: Map<string, ExecutionContext> = new Map();
+	private library = new ExecutionContext();
+	private modules = new ModuleRegistry(this.library);
+	private programs = new LRUCache<string, ParsedProgram>(PROGRAM_CACHE_SIZE);
+	private results = new LRUCache<string, CachedResult>(RESULT_CACHE_SIZE);
+
+	handle(request: RuntimeRequest): RuntimeResponse {
+		switch (request.type) {
+			case "evaluate":
+				return this.evaluateBlock(request);
+			case "compile":
+				return this.compile(request);
+			case "library":
+				return this.loadLibrary(request);
+			case "reset":
+				this.globalContexts.delete(request.contextKey);
+				return { id: request.id, contextKey: request.contextKey };
+			case "rename": {
+				const context = this.globalContexts.get(request.contextKey);
+				if (context) {
+					this.globalContexts.set(request.newContextKey, context);
+					this.globalContexts.delete(request.contextKey);
+				}
+				return {
+					id: request.id,
+					contextKey: request.newContextKey,
+					globals: this.getGlobalNames(request.newContextKey),
+				};
+			}
+			case "clearCaches":
+				this.programs.clear();
+				this.results.clear();
+				this.modules.clear();
+				return { id: request.id, contextKey: "" };
+		}
+	}
+
+	private parse(source: string): ParsedProgram {
+		const cached = this.programs.get(source);
+		if (cached) {
+			return cached;
+		}
+
+		const parsed = parseProgram(source);
+		this.programs.set(source, parsed);
+		return parsed;
+	}
+
+	// Runs against the globals the block will see, so assignments to them are
+	// not mistaken for unused locals
+	private analyze(
+		source: string,
+		globalContext: ExecutionContext
+	): AnalysisWarning[] {
+		const { program } = this.parse(source);
+		return new Analyzer(describeContext(globalContext)).analyze(program);
+	}
+
+	private getGlobalContext(contextKey: string): ExecutionContext {
+		let globalContext = this.globalContexts.get(contextKey);
+		if (!globalContext) {
+			globalContext = new ExecutionContext(this.library);
+			this.globalContexts.set(contextKey, globalContext);
+		}
+		return globalContext;
+	}
+
+	private evaluateBlock(request: EvaluateRequest): RuntimeResponse {
+		// Isolated blocks get a private global scope that only sees the library
+		const globalContext = request.isolated
+			? new ExecutionContext(this.library)
+			: this.getGlobalContext(request.contextKey);
+		// The module set holds the sources of everything the block imports,
+		// so editing a module misses the cache even when no global changes
+		const cacheKey = JSON.stringify([
+			request.contextKey,
+			request.position ?? null,
+			!!request.isolated,
+			request.source,
+			request.modules,
+		]);
+
+		if (!request.nocache) {
+			const cached = this.results.get(cacheKey);
+			if (cached && isCacheValid(cached, globalContext, request)) {
+				return {
+					id: request.id,
+					contextKey: request.contextKey,
+					results: cached.results,
+					warnings: this.analyze(request.source, globalContext),
+					globals: this.getGlobalNames(request.contextKey),
+					dependencies: request.isolated
+						? undefined
+						: cached.dependencies,
+				};
+			}
+		}
+
+		const tracker = new GlobalAccessTracker();
+		globalContext.setTracker(tracker);
+		let warnings: AnalysisWarning[] | undefined;
+
+		try {
+			const blockContext = new ExecutionContext();
+			blockContext.setGlobalContext(globalContext);
+
+			// The statements that parsed still run, with each syntax error
+			// shown among their results where it occurs in the source
+			const { program: ast, diagnostics } = this.parse(request.source);
+			if (diagnostics.length === 0) {
+				warnings = this.analyze(request.source, globalContext);
+			}
+
+			const evaluator = new Evaluator(
+				blockContext,
+				new ExecutionBudget(request.limits),
+				this.modules.createLoader(
+					request.modules,
+					request.modules.imports,
+					request.limits,
+					!request.nocache
+				),
+				request.position
+			);
+			// Statements run independently so that one failure does not hide
+			// the output of the others
+			const results: EvaluatedValue[] = [];
+			const statementErrors: StatementError[] = [];
+			const pending = [...diagnostics];
+			const reportDiagnosticsBefore = (node?: StatementNode) => {
+				while (
+					pending.length > 0 &&
+					(!node ||
+						pending[0].line < node.line ||
+						(pending[0].line === node.line &&
+							pending[0].column < node.column))
+				) {
+					statementErrors.push({
+						index: results.length,
+						error: serializeError(pending.shift()),
+					});
+				}
+			};
+
+			for (const statement of ast.statements) {
+				reportDiagnosticsBefore(statement);
+				try {
+					const result = evaluator.evaluateStatement(statement);
+					if (result) {
+						results.push(toTransferable(result));
+					}
+				} catch (e) {
+					statementErrors.push({
+						index: results.length,
+						error: serializeError(e),
+					});
+					if (e instanceof ExecutionLimitError) {
+						break;
+					}
+				}
+			}
+			reportDiagnosticsBefore();
+
+			globalContext.setTracker(undefined);
+			const dependencies = describeAccess(globalContext, tracker);
+
+			if (!request.nocache && statementErrors.length === 0) {
+				this.results.set(cacheKey, {
+					results,
+					reads: snapshotGlobals(
+						globalContext,
+						dependencies.reads,
+						tracker
+					),
+					writes: snapshotGlobals(globalContext, dependencies.writes),
+					dependencies: { ...dependencies, changed: [] },
+				});
+			}
+
+			return {
+				id: request.id,
+				contextKey: request.contextKey,
+				results,
+				statementErrors,
+				warnings,
+				globals: this.getGlobalNames(request.contextKey),
+				dependencies: request.isolated ? undefined : dependencies,
+			};
+		} catch (error) {
+			return {
+				id: request.id,
+				contextKey: request.contextKey,
+				error: serializeError(error),
+				warnings,
+				globals: this.getGlobalNames(request.contextKey),
+				dependencies: request.isolated
+					? undefined
+					: describeAccess(globalContext, tracker),
+			};
+		} finally {
+			globalContext.setTracker(undefined);
+		}
+	}
+
+	// Compiles a whole note in two phases: global functions and imports are
+	// hoisted first, then global variables are evaluated in document order.
+	// Globals that the note no longer defines are removed, and the response
+	// reports every global whose value changed compared to the last compile
+	private compile(request: CompileRequest): RuntimeResponse {
+		const globalContext = this.getGlobalContext(request.contextKey);
+		const tracker = new GlobalAccessTracker();
+		const previousNames = describeContext(globalContext);
+		const programs: Array<ProgramNode | null> = [];
+		const declarations: Map<string, GlobalDeclaration> = new Map();
+		let error: SerializedError | undefined;
+
+		request.sources.forEach((source, block) => {
+			try {
+				// Statements that parsed still define their globals when
+				// another statement in the block has a syntax error
+				const { program: ast, diagnostics } = this.parse(source);
+				programs.push(ast);
+				if (diagnostics.length > 0) {
+					error = error ?? serializeError(diagnostics[0]);
+				}
+
+				for (const statement of ast.statements) {
+					if (
+						statement.type === "Variable" &&
+						statement.isGlobal &&
+						!declarations.has(statement.name)
+					) {
+						declarations.set(statement.name, {
+							block,
+							line: statement.line,
+							column: statement.column,
+						});
+					}
+				}
+			} catch (e) {
+				programs.push(null);
+				error = error ?? serializeError(e);
+			}
+		});
+
+		globalContext.setDeclarations(declarations);
+		globalContext.setTracker(tracker);
+
+		const loader = this.modules.createLoader(
+			request.modules,
+			request.modules.imports,
+			request.limits
+		);
+
+		const runPhase = (
+			shouldRun: (statement: StatementNode) => boolean,
+			withPosition: boolean
+		) => {
+			programs.forEach((program, block) => {
+				if (!program) {
+					return;
+				}
+
+				const evaluator = new Evaluator(
+					globalContext,
+					new ExecutionBudget(request.limits),
+					loader,
+					withPosition ? block : undefined
+				);
+
+				for (const statement of program.statements) {
+					if (!shouldRun(statement)) {
+						continue;
+					}
+
+					try {
+						evaluator.evaluateStatement(statement);
+					} catch (e) {
+						error = error ?? serializeError(e);
+					}
+				}
+			});
+		};
+
+		try {
+			runPhase(
+				(statement) =>
+					statement.type === "Import" ||
+					(statement.type === "Function" && statement.isGlobal),
+				false
+			);
+			runPhase(
+				(statement) =>
+					statement.type === "Variable" && statement.isGlobal,
+				true
+			);
+
+			for (const name of previousNames.variables) {
+				if (!tracker.previousVariables.has(name)) {
+					globalContext.removeVariable(name);
+				}
+			}
+
+			for (const name of previousNames.functions) {
+				if (!tracker.previousFunctions.has(name)) {
+					globalContext.removeFunction(name);
+				}
+			}
+
+			return {
+				id: request.id,
+				contextKey: request.contextKey,
+				error,
+				globals: this.getGlobalNames(request.contextKey),
+				dependencies: describeAccess(globalContext, tracker),
+			};
+		} finally {
+			globalContext.setTracker(undefined);
+		}
+	}
+
+	// Library definitions are evaluated into a single shared context that
+	// every note's global context falls back to, so it is cleared and refilled
+	// in place rather than replaced
+	private loadLibrary(request: LibraryRequest): RuntimeResponse {
+		this.library.clear();
+		// Cached modules were evaluated against the previous library
+		this.modules.clear();
+
+		const loader = this.modules.createLoader(
+			request.modules,
+			request.modules.imports,
+			request.limits
+		);
+		let error: SerializedError | undefined;
+
+		for (const path of request.paths) {
+			try {
+				this.library.importDefinitions(loader.load(path, 1, 1));
+			} catch (e) {
+				error = error ?? serializeError(e);
+			}
+		}
+
+		return {
+			id: request.id,
+			contextKey: request.contextKey,
+			error,
+			globals: describeContext(this.library),
+		};
+	}
+
+	private getGlobalNames(contextKey: string): GlobalNames | undefined {
+		const globalContext = this.globalContexts.get(contextKey);
+		return globalContext ? describeContext(globalContext) : undefined;
+	}
+}
+
+// A global only counts as changed when its new value differs from the one it
+// had before the block ran, so rewriting the same value does not cascade
+function describeAccess(
+	context: ExecutionContext,
+	tracker: GlobalAccessTracker
+): BlockDependencies {
+	const variables = context.getAllVariables();
+	const functions = context.getAllFunctions();
+	const changed = new Set<string>();
+
+	for (const [name, previous] of tracker.previousVariables) {
+		if (fingerprint(previous) !== fingerprint(variables.get(name))) {
+			changed.add(name);
+		}
+	}
+
+	for (const [name, previous] of tracker.previousFunctions) {
+		if (fingerprint(previous) !== fingerprint(functions.get(name))) {
+			changed.add(name);
+		}
+	}
+
+	return {
+		reads: Array.from(tracker.reads),
+		writes: Array.from(
+			new Set([
+				...tracker.previousVariables.keys(),
+				...tracker.previousFunctions.keys(),
+			])
+		),
+		changed: Array.from(changed),
+	};
+}
+
+function isCacheValid(
+	cached: CachedResult,
+	context: ExecutionContext,
+	request: EvaluateRequest
+): boolean {
+	const matches = (snapshot: Map<string, string>) =>
+		Array.from(snapshot).every(
+			([name, value]) => fingerprintGlobal(context, name) === value
+		);
+
+	// Writes of an isolated block land in a scope that is thrown away
+	return (
+		matches(cached.reads) && (request.isolated || matches(cached.writes))
+	);
+}
+
+// Fingerprints globals as they are now, or as they were before the block ran
+// when a tracker with their previous values is given
+function snapshotGlobals(
+	context: ExecutionContext,
+	names: string[],
+	tracker?: GlobalAccessTracker
+): Map<string, string> {
+	const snapshot = new Map<string, string>();
+
+	for (const name of names) {
+		snapshot.set(name, fingerprintGlobal(context, name, tracker));
+	}
+
+	return snapshot;
+}
+
+function fingerprintGlobal(
+	context: ExecutionContext,
+	name: string,
+	tracker?: GlobalAccessTracker
+): string {
+	const variable = tracker?.previousVariables.has(name)
+		? tracker.previousVariables.get(name)
+		: context.getVariable(name);
+	const func = tracker?.previousFunctions.has(name)
+		? tracker.previousFunctions.get(name)
+		: context.getFunction(name);
+
+	return JSON.stringify([
+		fingerprint(variable),
+		fingerprint(func),
+		context.getDeclaration(name) ?? null,
+	]);
+}
+
+function fingerprint(
+	value: EvaluatedValue | FunctionDefinition | undefined
+): string {
+	if (!value) {
+		return "";
+	}
+
+	if ("body" in value) {
+		return JSON.stringify([value.params, value.styles, value.body]);
+	}
+
+	return JSON.stringify(toTransferable(value), (_key, raw) =>
+		raw instanceof Map ? Array.from(raw) : raw
+	);
+}
+
+function describeContext(context: ExecutionContext): GlobalNames {
+	return {
+		variables: Array.from(context.getAllVariables().keys()),
+		functions: Array.from(context.getAllFunctions().keys()),
+	};
+}
+
+export function toTransferable(value: EvaluatedValue): EvaluatedValue {
+	const transferable: EvaluatedValue = {
+		value: toTransferableRaw(value.value),
+		isMarkdown: value.isMarkdown,
+	};
+
+	if (value.styles) {
+		transferable.styles = [...value.styles];
+	}
+
+	if (value.children) {
+		transferable.children = value.children.map((child) =>
+			toTransferable(child)
+		);
+	}
+
+	return transferable;
+}
+
+function toTransferableRaw(
+	raw: EvaluatedValue["value"]
+): EvaluatedValue["value"] {
+	if (Array.isArray(raw)) {
+		return raw.map((elem) => toTransferable(elem));
+	}
+
+	if (raw instanceof Map) {
+		return new Map(
+			Array.from(raw).map(([key, elem]) => [key, toTransferable(elem)])
+		);
+	}
+
+	if (raw instanceof FunctionValue) {
+		return String(raw);
+	}
+
+	return raw;
+}
+
+function serializeError(error: unknown): SerializedError {
+	if (error instanceof Error) {
+		const { line, column, start, end, modulePath } = error as Error & {
+			line?: number;
+			column?: number;
+			start?: number;
+			end?: number;
+			modulePath?: string;
+		};
+		return {
+			name: error.name,
+			message: error.message,
+			line,
+			column,
+			start,
+			end,
+			modulePath,
+		};
+	}
+
+	return { name: "Error", message: String(error) };
+}
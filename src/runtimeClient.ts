@@ -0,0 +1,353 @@
+import workerSource from "inline-worker:./evaluationWorker";
+import { BlockOptions } from "./blockOptions";
+import { ExecutionLimits } from "./evaluator";
+import { MDLXRuntime } from "./runtime";
+import {
+	GlobalNames,
+	LIBRARY_CONTEXT_KEY,
+	ModuleSet,
+	RuntimeRequest,
+	RuntimeResponse,
+} from "./types/runtime.types";
+
+// A run stops itself once it is over its time limit, so one that is still
+// going this long after the limit is stuck and its worker is replaced
+const WATCHDOG_GRACE_MS = 2000;
+
+export class EvaluationCancelledError extends Error {
+	constructor() {
+		super("Evaluation was cancelled");
+		this.name = "EvaluationCancelledError";
+	}
+}
+
+interface PendingRequest {
+	request: RuntimeRequest;
+	owner?: HTMLElement;
+	resolve: (response: RuntimeResponse) => void;
+	reject: (error: Error) => void;
+}
+
+type RequestBody<T extends RuntimeRequest> = T extends RuntimeRequest
+	? Omit<T, "id">
+	: never;
+
+export class RuntimeClient {
+	private worker: Worker | null = null;
+	private workerUrl: string | null = null;
+	private localRuntime: MDLXRuntime | null = null;
+	private queue: PendingRequest[] = [];
+	private inFlight: PendingRequest | null = null;
+	private held: PendingRequest[] | null = null;
+	private watchdog: number | null = null;
+	private restarts = 0;
+	private nextId = 1;
+	private globalNames: Map<string, GlobalNames> = new Map();
+
+	constructor(useWorker: boolean, private onRestart: () => Promise<void>) {
+		if (useWorker) {
+			this.startWorker();
+		}
+		if (!this.worker) {
+			this.localRuntime = new MDLXRuntime();
+		}
+	}
+
+	evaluate(
+		contextKey: string,
+		source: string,
+		position: number | undefined,
+		options: BlockOptions,
+		modules: ModuleSet,
+		limits: ExecutionLimits,
+		owner?: HTMLElement
+	): Promise<RuntimeResponse> {
+		return this.enqueue(
+			{
+				type: "evaluate",
+				contextKey,
+				source,
+				position,
+				isolated: options.isolated,
+				nocache: options.nocache,
+				modules,
+				limits,
+			},
+			owner
+		);
+	}
+
+	compile(
+		contextKey: string,
+		sources: string[],
+		modules: ModuleSet,
+		limits: ExecutionLimits
+	): Promise<RuntimeResponse> {
+		return this.enqueue({
+			type: "compile",
+			contextKey,
+			sources,
+			modules,
+			limits,
+		});
+	}
+
+	loadLibrary(
+		paths: string[],
+		modules: ModuleSet,
+		limits: ExecutionLimits
+	): Promise<RuntimeResponse> {
+		return this.enqueue({
+			type: "library",
+			contextKey: LIBRARY_CONTEXT_KEY,
+			paths,
+			modules,
+			limits,
+		});
+	}
+
+	reset(contextKey: string): void {
+		this.globalNames.delete(contextKey);
+		this.enqueue({ type: "reset", contextKey }).catch(() => {});
+	}
+
+	rename(contextKey: string, newContextKey: string): void {
+		const names = this.globalNames.get(contextKey);
+		if (names) {
+			this.globalNames.set(newContextKey, names);
+			this.globalNames.delete(contextKey);
+		}
+		this.enqueue({ type: "rename", contextKey, newContextKey }).catch(
+			() => {}
+		);
+	}
+
+	clearCaches(): void {
+		this.enqueue({ type: "clearCaches" }).catch(() => {});
+	}
+
+	getGlobalNames(contextKey: string): GlobalNames | undefined {
+		return this.globalNames.get(contextKey);
+	}
+
+	cancel(owner: HTMLElement): void {
+		this.cancelWhere((pending) => pending.owner === owner);
+	}
+
+	terminate(): void {
+		this.stopWorker();
+		for (const pending of [...this.queue, ...(this.held ?? [])]) {
+			pending.reject(new EvaluationCancelledError());
+		}
+		this.inFlight?.reject(new EvaluationCancelledError());
+		this.queue = [];
+		this.held = null;
+		this.inFlight = null;
+		this.restarts++;
+		this.globalNames.clear();
+	}
+
+	private enqueue(
+		body: RequestBody<RuntimeRequest>,
+		owner?: HTMLElement
+	): Promise<RuntimeResponse> {
+		const request = { ...body, id: this.nextId++ } as RuntimeRequest;
+
+		return new Promise((resolve, reject) => {
+			this.queue.push({ request, owner, resolve, reject });
+			this.processQueue();
+		});
+	}
+
+	private processQueue(): void {
+		if (this.inFlight) {
+			return;
+		}
+
+		const next = this.queue.shift();
+		if (!next) {
+			return;
+		}
+
+		this.inFlight = next;
+
+		if (this.worker) {
+			this.worker.postMessage(next.request);
+			this.startWatchdog(next);
+			return;
+		}
+
+		if (this.localRuntime) {
+			let response: RuntimeResponse;
+			try {
+				response = this.localRuntime.handle(next.request);
+			} catch (error) {
+				this.inFlight = null;
+				next.reject(
+					error instanceof Error ? error : new Error(String(error))
+				);
+				this.processQueue();
+				return;
+			}
+			this.handleResponse(response);
+		}
+	}
+
+	private handleResponse(response: RuntimeResponse): void {
+		const pending = this.inFlight;
+		if (!pending || pending.request.id !== response.id) {
+			return;
+		}
+
+		this.inFlight = null;
+		this.stopWatchdog();
+
+		if (response.globals) {
+			this.globalNames.set(response.contextKey, response.globals);
+		}
+
+		pending.resolve(response);
+		this.processQueue();
+	}
+
+	// A running evaluation is left to finish, as interrupting it means
+	// replacing the worker and losing every note's globals
+	private cancelWhere(predicate: (pending: PendingRequest) => boolean): void {
+		const keep = (pending: PendingRequest) => {
+			if (predicate(pending)) {
+				pending.reject(new EvaluationCancelledError());
+				return false;
+			}
+			return true;
+		};
+
+		this.queue = this.queue.filter(keep);
+		this.held = this.held && this.held.filter(keep);
+	}
+
+	private startWatchdog(pending: PendingRequest): void {
+		const { request } = pending;
+		if (request.type !== "evaluate" || request.limits.timeoutMs <= 0) {
+			return;
+		}
+
+		this.watchdog = window.setTimeout(() => {
+			this.watchdog = null;
+			if (this.inFlight !== pending) {
+				return;
+			}
+
+			this.inFlight = null;
+			this.restartWorker();
+			pending.reject(
+				new Error(
+					`Execution did not stop after ${request.limits.timeoutMs}ms and was aborted`
+				)
+			);
+			this.processQueue();
+		}, request.limits.timeoutMs + WATCHDOG_GRACE_MS);
+	}
+
+	private stopWatchdog(): void {
+		if (this.watchdog !== null) {
+			window.clearTimeout(this.watchdog);
+			this.watchdog = null;
+		}
+	}
+
+	private startWorker(): void {
+		try {
+			this.workerUrl = URL.createObjectURL(
+				new Blob([workerSource], { type: "text/javascript" })
+			);
+			this.worker = new Worker(this.workerUrl);
+			this.worker.onmessage = (event: MessageEvent<RuntimeResponse>) =>
+				this.handleResponse(event.data);
+			this.worker.onerror = (event: ErrorEvent) => {
+				console.error("MDLX worker error:", event.message);
+				this.fallBackToLocalRuntime();
+			};
+		} catch (error) {
+			console.warn("MDLX: could not start evaluation worker:", error);
+			this.stopWorker();
+		}
+	}
+
+	private stopWorker(): void {
+		this.stopWatchdog();
+		this.worker?.terminate();
+		this.worker = null;
+
+		if (this.workerUrl) {
+			URL.revokeObjectURL(this.workerUrl);
+			this.workerUrl = null;
+		}
+	}
+
+	private restartWorker(): void {
+		this.stopWorker();
+		this.startWorker();
+		if (!this.worker) {
+			this.localRuntime = new MDLXRuntime();
+		}
+		this.restore();
+	}
+
+	private fallBackToLocalRuntime(): void {
+		this.stopWorker();
+		this.localRuntime = new MDLXRuntime();
+
+		if (this.inFlight) {
+			this.queue.unshift(this.inFlight);
+			this.inFlight = null;
+		}
+
+		this.restore();
+		this.processQueue();
+	}
+
+	// The new runtime has neither the library nor any note's globals, so the
+	// requests that were waiting run once the plugin has restored them
+	private restore(): void {
+		const restart = ++this.restarts;
+		this.globalNames.clear();
+		this.held = [...(this.held ?? []), ...this.queue];
+		this.queue = [];
+
+		this.onRestart()
+			.catch((error) =>
+				console.error("MDLX: could not restore the runtime:", error)
+			)
+			.then(() => {
+				if (restart !== this.restarts || !this.held) {
+					return;
+				}
+				this.queue.push(...this.held);
+				this.held = null;
+				this.processQueue();
+			});
+	}
+}
+
+export function deserializeError(response: RuntimeResponse): Error & {
+	line?: number;
+	column?: number;
+	start?: number;
+	end?: number;
+	modulePath?: string;
+} {
+	const error: Error & {
+		line?: number;
+		column?: number;
+		start?: number;
+		end?: number;
+		modulePath?: string;
+	} = new Error(response.error?.message);
+	error.name = response.error?.name ?? "Error";
+	error.line = response.error?.line;
+	error.column = response.error?.column;
+	error.start = response.error?.start;
+	error.end = response.error?.end;
+	error.modulePath = response.error?.modulePath;
+	return error;
+}
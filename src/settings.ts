@@ -1,7 +1,21 @@
+import { DEFAULT_EXECUTION_LIMITS } from "./evaluator";
+
 export interface MDLXSettings {
 	enableAutocompleteSuggestions: boolean;
+	showEditorDiagnostics: boolean;
+	evaluateInWorker: boolean;
+	libraryFolder: string;
+	maxExecutionSteps: number;
+	maxCallDepth: number;
+	executionTimeoutMs: number;
 }
 
 export const DEFAULT_SETTINGS: MDLXSettings = {
 	enableAutocompleteSuggestions: true,
+	showEditorDiagnostics: true,
+	evaluateInWorker: true,
+	libraryFolder: "_mdlx",
+	maxExecutionSteps: DEFAULT_EXECUTION_LIMITS.maxSteps,
+	maxCallDepth: DEFAULT_EXECUTION_LIMITS.maxCallDepth,
+	executionTimeoutMs: DEFAULT_EXECUTION_LIMITS.timeoutMs,
 };
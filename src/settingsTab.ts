@@ -1,5 +1,6 @@
 import { App, PluginSettingTab, Setting } from "obsidian";
 import MDLXPlugin from "../main";
+import { DEFAULT_SETTINGS } from "./settings";
 
 export class MDLXSettingTab extends PluginSettingTab {
 	plugin: MDLXPlugin;
@@ -32,5 +33,98 @@ export class MDLXSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					})
 			);
+
+		new Setting(containerEl)
+			.setName("Show diagnostics in the editor")
+			.setDesc(
+				"Underline syntax errors and warnings in lx blocks while editing, without running them"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.showEditorDiagnostics)
+					.onChange(async (value) => {
+						this.plugin.settings.showEditorDiagnostics = value;
+						await this.plugin.saveSettings();
+						this.plugin.updateEditorExtensions();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Evaluate blocks in a background worker")
+			.setDesc(
+				"Run lx blocks off the main thread so long-running blocks do not freeze the editor"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.evaluateInWorker)
+					.onChange(async (value) => {
+						this.plugin.settings.evaluateInWorker = value;
+						await this.plugin.saveSettings();
+						this.plugin.restartRuntime();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Component library folder")
+			.setDesc(
+				"Global definitions from .lx files in this folder are available in every note. Leave empty to disable."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("_mdlx")
+					.setValue(this.plugin.settings.libraryFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.libraryFolder = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.scheduleLibraryReload();
+					})
+			);
+
+		containerEl.createEl("h3", { text: "Execution limits" });
+
+		this.addLimitSetting(
+			"Maximum execution steps",
+			"Stop a block after this many statements and loop iterations (0 for no limit)",
+			"maxExecutionSteps"
+		);
+
+		this.addLimitSetting(
+			"Maximum call depth",
+			"Stop a block when function calls nest deeper than this (0 for no limit)",
+			"maxCallDepth"
+		);
+
+		this.addLimitSetting(
+			"Execution timeout (ms)",
+			"Stop a block that runs longer than this many milliseconds (0 for no limit)",
+			"executionTimeoutMs"
+		);
+	}
+
+	private addLimitSetting(
+		name: string,
+		desc: string,
+		key: "maxExecutionSteps" | "maxCallDepth" | "executionTimeoutMs"
+	): void {
+		new Setting(this.containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS[key]))
+					.setValue(String(this.plugin.settings[key]))
+					.onChange(async (value) => {
+						// An emptied field would read as 0, which means no limit
+						if (value.trim() === "") {
+							return;
+						}
+						const parsed = Number(value);
+						if (!Number.isInteger(parsed) || parsed < 0) {
+							return;
+						}
+						this.plugin.settings[key] = parsed;
+						await this.plugin.saveSettings();
+					})
+			);
 	}
 }
@@ -1,10 +1,11 @@
-import { EvaluatedValue } from "./evaluator";
+import { EvaluatedValue, Evaluator, FunctionValue } from "./evaluator";
 import { RuntimeError } from "./evaluator";
 
 export type StdLibFunction = (
 	args: EvaluatedValue[],
 	line: number,
-	column: number
+	column: number,
+	evaluator: Evaluator
 ) => EvaluatedValue;
 
 export const STDLIB_FUNCTIONS: Map<string, StdLibFunction> = new Map();
@@ -19,6 +20,15 @@ export function getStdLibFunction(name: string): StdLibFunction | undefined {
 
 /* ============================= Util Functions ============================= */
 
+function flattenValue(value: EvaluatedValue, separator: string): string {
+	if (value.children && value.children.length > 0) {
+		return value.children
+			.map((child) => flattenValue(child, separator))
+			.join(separator);
+	}
+	return String(value.value);
+}
+
 function stdlib_len(
 	args: EvaluatedValue[],
 	line: number,
@@ -48,8 +58,15 @@ function stdlib_len(
 		};
 	}
 
+	if (value.value instanceof Map) {
+		return {
+			value: value.value.size,
+			isMarkdown: true,
+		};
+	}
+
 	throw new RuntimeError(
-		`@len() expects a string or array, got ${typeof value.value}`,
+		`@len() expects a string, array or map, got ${typeof value.value}`,
 		line,
 		column
 	);
@@ -70,18 +87,17 @@ function stdlib_join(
 
 	const array = args[0];
 	const separator = args[1] ? String(args[1].value) : "";
+	const items = Array.isArray(array.value) ? array.value : array.children;
 
-	if (!Array.isArray(array.value)) {
+	if (!items) {
 		throw new RuntimeError(
-			`@join() expects an array as first argument, got ${typeof array.value}`,
+			`@join() expects an array or multi-part output as first argument, got ${typeof array.value}`,
 			line,
 			column
 		);
 	}
 
-	const joined = (array.value as EvaluatedValue[])
-		.map((v) => String(v.value))
-		.join(separator);
+	const joined = items.map((v) => flattenValue(v, separator)).join(separator);
 
 	return {
 		value: joined,
@@ -173,6 +189,526 @@ function stdlib_lower(
 	};
 }
 
+/* ============================= Map Functions ============================== */
+
+function stdlib_keys(
+	args: EvaluatedValue[],
+	line: number,
+	column: number
+): EvaluatedValue {
+	if (args.length !== 1) {
+		throw new RuntimeError(
+			`@keys() expects 1 argument, got ${args.length}`,
+			line,
+			column
+		);
+	}
+
+	if (!(args[0].value instanceof Map)) {
+		throw new RuntimeError(
+			`@keys() expects a map, got ${typeof args[0].value}`,
+			line,
+			column
+		);
+	}
+
+	const keys: EvaluatedValue[] = Array.from(args[0].value.keys()).map(
+		(key) => ({
+			value: key,
+			isMarkdown: false,
+		})
+	);
+
+	return {
+		value: keys,
+		isMarkdown: false,
+	};
+}
+
+function stdlib_values(
+	args: EvaluatedValue[],
+	line: number,
+	column: number
+): EvaluatedValue {
+	if (args.length !== 1) {
+		throw new RuntimeError(
+			`@values() expects 1 argument, got ${args.length}`,
+			line,
+			column
+		);
+	}
+
+	if (!(args[0].value instanceof Map)) {
+		throw new RuntimeError(
+			`@values() expects a map, got ${typeof args[0].value}`,
+			line,
+			column
+		);
+	}
+
+	return {
+		value: Array.from(args[0].value.values()),
+		isMarkdown: false,
+	};
+}
+
+function stdlib_has(
+	args: EvaluatedValue[],
+	line: number,
+	column: number
+): EvaluatedValue {
+	if (args.length !== 2) {
+		throw new RuntimeError(
+			`@has() expects 2 arguments (map, key), got ${args.length}`,
+			line,
+			column
+		);
+	}
+
+	if (!(args[0].value instanceof Map)) {
+		throw new RuntimeError(
+			`@has() expects a map as first argument, got ${typeof args[0]
+				.value}`,
+			line,
+			column
+		);
+	}
+
+	return {
+		value: args[0].value.has(String(args[1].value)),
+		isMarkdown: false,
+	};
+}
+
+/* ========================= Higher-Order Functions ========================= */
+
+function expectArrayAndCallable(
+	name: string,
+	args: EvaluatedValue[],
+	line: number,
+	column: number
+): { items: EvaluatedValue[]; callback: FunctionValue } {
+	if (!Array.isArray(args[0].value)) {
+		throw new RuntimeError(
+			`${name}() expects an array as first argument, got ${typeof args[0]
+				.value}`,
+			line,
+			column
+		);
+	}
+
+	if (!(args[1].value instanceof FunctionValue)) {
+		throw new RuntimeError(
+			`${name}() expects a function as second argument, got ${typeof args[1]
+				.value}`,
+			line,
+			column
+		);
+	}
+
+	return {
+		items: args[0].value as EvaluatedValue[],
+		callback: args[1].value,
+	};
+}
+
+function invokeCallback(
+	evaluator: Evaluator,
+	callback: FunctionValue,
+	args: EvaluatedValue[],
+	arity: number,
+	line: number,
+	column: number
+): EvaluatedValue {
+	// Stdlib callbacks validate their argument count, so the trailing index
+	// argument is only passed to user-defined functions
+	const callArgs = callback.native ? args.slice(0, arity) : args;
+	return evaluator.callFunction(callback, callArgs, line, column);
+}
+
+function indexValue(index: number): EvaluatedValue {
+	return {
+		value: index,
+		isMarkdown: true,
+	};
+}
+
+function stdlib_map(
+	args: EvaluatedValue[],
+	line: number,
+	column: number,
+	evaluator: Evaluator
+): EvaluatedValue {
+	if (args.length !== 2) {
+		throw new RuntimeError(
+			`@map() expects 2 arguments (array, fn), got ${args.length}`,
+			line,
+			column
+		);
+	}
+
+	const { items, callback } = expectArrayAndCallable(
+		"@map",
+		args,
+		line,
+		column
+	);
+
+	const mapped = items.map((item, index) =>
+		invokeCallback(
+			evaluator,
+			callback,
+			[item, indexValue(index)],
+			1,
+			line,
+			column
+		)
+	);
+
+	return {
+		value: mapped,
+		isMarkdown: false,
+	};
+}
+
+function stdlib_filter(
+	args: EvaluatedValue[],
+	line: number,
+	column: number,
+	evaluator: Evaluator
+): EvaluatedValue {
+	if (args.length !== 2) {
+		throw new RuntimeError(
+			`@filter() expects 2 arguments (array, fn), got ${args.length}`,
+			line,
+			column
+		);
+	}
+
+	const { items, callback } = expectArrayAndCallable(
+		"@filter",
+		args,
+		line,
+		column
+	);
+
+	const filtered = items.filter((item, index) =>
+		evaluator.toBoolean(
+			invokeCallback(
+				evaluator,
+				callback,
+				[item, indexValue(index)],
+				1,
+				line,
+				column
+			).value
+		)
+	);
+
+	return {
+		value: filtered,
+		isMarkdown: false,
+	};
+}
+
+function stdlib_reduce(
+	args: EvaluatedValue[],
+	line: number,
+	column: number,
+	evaluator: Evaluator
+): EvaluatedValue {
+	if (args.length < 2 || args.length > 3) {
+		throw new RuntimeError(
+			`@reduce() expects 2-3 arguments (array, fn, [initial]), got ${args.length}`,
+			line,
+			column
+		);
+	}
+
+	const { items, callback } = expectArrayAndCallable(
+		"@reduce",
+		args,
+		line,
+		column
+	);
+
+	if (args.length === 2 && items.length === 0) {
+		throw new RuntimeError(
+			`@reduce() of an empty array requires an initial value`,
+			line,
+			column
+		);
+	}
+
+	let accumulator = args.length === 3 ? args[2] : items[0];
+	const start = args.length === 3 ? 0 : 1;
+
+	for (let i = start; i < items.length; i++) {
+		accumulator = invokeCallback(
+			evaluator,
+			callback,
+			[accumulator, items[i], indexValue(i)],
+			2,
+			line,
+			column
+		);
+	}
+
+	return accumulator;
+}
+
+function stdlib_sortBy(
+	args: EvaluatedValue[],
+	line: number,
+	column: number,
+	evaluator: Evaluator
+): EvaluatedValue {
+	if (args.length !== 2) {
+		throw new RuntimeError(
+			`@sortBy() expects 2 arguments (array, fn), got ${args.length}`,
+			line,
+			column
+		);
+	}
+
+	const { items, callback } = expectArrayAndCallable(
+		"@sortBy",
+		args,
+		line,
+		column
+	);
+
+	const keyed = items.map((item, index) => ({
+		item,
+		key: invokeCallback(
+			evaluator,
+			callback,
+			[item, indexValue(index)],
+			1,
+			line,
+			column
+		).value,
+	}));
+
+	keyed.sort((a, b) => {
+		if (typeof a.key === "number" && typeof b.key === "number") {
+			return a.key - b.key;
+		}
+		return String(a.key).localeCompare(String(b.key));
+	});
+
+	return {
+		value: keyed.map((entry) => entry.item),
+		isMarkdown: false,
+	};
+}
+
+function stdlib_find(
+	args: EvaluatedValue[],
+	line: number,
+	column: number,
+	evaluator: Evaluator
+): EvaluatedValue {
+	if (args.length !== 2) {
+		throw new RuntimeError(
+			`@find() expects 2 arguments (array, fn), got ${args.length}`,
+			line,
+			column
+		);
+	}
+
+	const { items, callback } = expectArrayAndCallable(
+		"@find",
+		args,
+		line,
+		column
+	);
+
+	const found = items.find((item, index) =>
+		evaluator.toBoolean(
+			invokeCallback(
+				evaluator,
+				callback,
+				[item, indexValue(index)],
+				1,
+				line,
+				column
+			).value
+		)
+	);
+
+	return found ?? { value: "", isMarkdown: true };
+}
+
+function stdlib_some(
+	args: EvaluatedValue[],
+	line: number,
+	column: number,
+	evaluator: Evaluator
+): EvaluatedValue {
+	if (args.length !== 2) {
+		throw new RuntimeError(
+			`@some() expects 2 arguments (array, fn), got ${args.length}`,
+			line,
+			column
+		);
+	}
+
+	const { items, callback } = expectArrayAndCallable(
+		"@some",
+		args,
+		line,
+		column
+	);
+
+	return {
+		value: items.some((item, index) =>
+			evaluator.toBoolean(
+				invokeCallback(
+					evaluator,
+					callback,
+					[item, indexValue(index)],
+					1,
+					line,
+					column
+				).value
+			)
+		),
+		isMarkdown: false,
+	};
+}
+
+function stdlib_every(
+	args: EvaluatedValue[],
+	line: number,
+	column: number,
+	evaluator: Evaluator
+): EvaluatedValue {
+	if (args.length !== 2) {
+		throw new RuntimeError(
+			`@every() expects 2 arguments (array, fn), got ${args.length}`,
+			line,
+			column
+		);
+	}
+
+	const { items, callback } = expectArrayAndCallable(
+		"@every",
+		args,
+		line,
+		column
+	);
+
+	return {
+		value: items.every((item, index) =>
+			evaluator.toBoolean(
+				invokeCallback(
+					evaluator,
+					callback,
+					[item, indexValue(index)],
+					1,
+					line,
+					column
+				).value
+			)
+		),
+		isMarkdown: false,
+	};
+}
+
+function stdlib_flatMap(
+	args: EvaluatedValue[],
+	line: number,
+	column: number,
+	evaluator: Evaluator
+): EvaluatedValue {
+	if (args.length !== 2) {
+		throw new RuntimeError(
+			`@flatMap() expects 2 arguments (array, fn), got ${args.length}`,
+			line,
+			column
+		);
+	}
+
+	const { items, callback } = expectArrayAndCallable(
+		"@flatMap",
+		args,
+		line,
+		column
+	);
+
+	const flattened: EvaluatedValue[] = [];
+	items.forEach((item, index) => {
+		const result = invokeCallback(
+			evaluator,
+			callback,
+			[item, indexValue(index)],
+			1,
+			line,
+			column
+		);
+
+		if (Array.isArray(result.value)) {
+			flattened.push(...result.value);
+		} else {
+			flattened.push(result);
+		}
+	});
+
+	return {
+		value: flattened,
+		isMarkdown: false,
+	};
+}
+
+function stdlib_groupBy(
+	args: EvaluatedValue[],
+	line: number,
+	column: number,
+	evaluator: Evaluator
+): EvaluatedValue {
+	if (args.length !== 2) {
+		throw new RuntimeError(
+			`@groupBy() expects 2 arguments (array, fn), got ${args.length}`,
+			line,
+			column
+		);
+	}
+
+	const { items, callback } = expectArrayAndCallable(
+		"@groupBy",
+		args,
+		line,
+		column
+	);
+
+	const groups: Map<string, EvaluatedValue> = new Map();
+	items.forEach((item, index) => {
+		const key = String(
+			invokeCallback(
+				evaluator,
+				callback,
+				[item, indexValue(index)],
+				1,
+				line,
+				column
+			).value
+		);
+
+		const group = groups.get(key);
+		if (group) {
+			(group.value as EvaluatedValue[]).push(item);
+		} else {
+			groups.set(key, { value: [item], isMarkdown: false });
+		}
+	});
+
+	return {
+		value: groups,
+		isMarkdown: false,
+	};
+}
+
 /* =========================== Markdown Functions =========================== */
 
 function stdlib_heading(
@@ -740,16 +1276,28 @@ function stdlib_dl(
 		);
 	}
 
+	const items: string[] = [];
+
+	if (args[0].value instanceof Map) {
+		for (const [dt, dd] of args[0].value) {
+			items.push(`**${dt}**:\n ${String(dd.value)}`);
+		}
+
+		return {
+			value: items.join("\n\n"),
+			isMarkdown: true,
+		};
+	}
+
 	if (!Array.isArray(args[0].value)) {
 		throw new RuntimeError(
-			`@dl() expects an array of [term, definition] pairs`,
+			`@dl() expects a map or an array of [term, definition] pairs`,
 			line,
 			column
 		);
 	}
 
 	const terms = args[0].value as EvaluatedValue[];
-	const items: string[] = [];
 
 	for (const term of terms) {
 		if (!Array.isArray(term.value) || term.value.length !== 2) {
@@ -776,6 +1324,18 @@ STDLIB_FUNCTIONS.set("@join", stdlib_join);
 STDLIB_FUNCTIONS.set("@range", stdlib_range);
 STDLIB_FUNCTIONS.set("@upper", stdlib_upper);
 STDLIB_FUNCTIONS.set("@lower", stdlib_lower);
+STDLIB_FUNCTIONS.set("@keys", stdlib_keys);
+STDLIB_FUNCTIONS.set("@values", stdlib_values);
+STDLIB_FUNCTIONS.set("@has", stdlib_has);
+STDLIB_FUNCTIONS.set("@map", stdlib_map);
+STDLIB_FUNCTIONS.set("@filter", stdlib_filter);
+STDLIB_FUNCTIONS.set("@reduce", stdlib_reduce);
+STDLIB_FUNCTIONS.set("@sortBy", stdlib_sortBy);
+STDLIB_FUNCTIONS.set("@find", stdlib_find);
+STDLIB_FUNCTIONS.set("@some", stdlib_some);
+STDLIB_FUNCTIONS.set("@every", stdlib_every);
+STDLIB_FUNCTIONS.set("@flatMap", stdlib_flatMap);
+STDLIB_FUNCTIONS.set("@groupBy", stdlib_groupBy);
 STDLIB_FUNCTIONS.set("@repeat", stdlib_repeat);
 STDLIB_FUNCTIONS.set("@heading", stdlib_heading);
 STDLIB_FUNCTIONS.set("@link", stdlib_link);
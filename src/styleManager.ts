@@ -1,6 +1,15 @@
+interface StyleEntry {
+	css: string;
+	rule: CSSRule;
+	references: number;
+}
+
+// Generated classes are content-addressed, so blocks with the same styles
+// share one rule. Each rule is reference counted and inserted or deleted on
+// its own instead of rewriting the whole stylesheet
 export class DynamicStyleManager {
 	private styleElement: HTMLStyleElement | null = null;
-	private customStyles: Map<string, string> = new Map();
+	private customStyles: Map<string, StyleEntry> = new Map();
 
 	constructor() {
 		this.createStyleElement();
@@ -12,20 +21,55 @@ export class DynamicStyleManager {
 		document.head.appendChild(this.styleElement);
 	}
 
-	addCustomStyle(className: string, css: string): void {
-		this.customStyles.set(className, css);
-		this.updateStyleElement();
+	// Returns false when the class name already holds a different rule, so
+	// the caller can pick another name for its styles
+	addCustomStyle(className: string, css: string): boolean {
+		const existing = this.customStyles.get(className);
+		if (existing) {
+			if (existing.css !== css) {
+				return false;
+			}
+			existing.references++;
+			return true;
+		}
+
+		const sheet = this.styleElement?.sheet;
+		if (!sheet) {
+			return true;
+		}
+
+		// A rule the browser rejects only loses its styles, not the render
+		let index: number;
+		try {
+			index = sheet.insertRule(css, sheet.cssRules.length);
+		} catch {
+			return true;
+		}
+
+		this.customStyles.set(className, {
+			css,
+			rule: sheet.cssRules[index],
+			references: 1,
+		});
+		return true;
 	}
 
 	removeCustomStyle(className: string): void {
+		const entry = this.customStyles.get(className);
+		if (!entry || --entry.references > 0) {
+			return;
+		}
+
 		this.customStyles.delete(className);
-		this.updateStyleElement();
-	}
 
-	private updateStyleElement(): void {
-		if (this.styleElement) {
-			const allStyles = Array.from(this.customStyles.values()).join("\n");
-			this.styleElement.textContent = allStyles;
+		const sheet = this.styleElement?.sheet;
+		if (!sheet) {
+			return;
+		}
+
+		const index = Array.prototype.indexOf.call(sheet.cssRules, entry.rule);
+		if (index !== -1) {
+			sheet.deleteRule(index);
 		}
 	}
 
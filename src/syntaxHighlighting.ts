@@ -1,3 +1,32 @@
+import { RangeSetBuilder, Extension } from "@codemirror/state";
+import {
+	Decoration,
+	DecorationSet,
+	EditorView,
+	ViewPlugin,
+	ViewUpdate,
+} from "@codemirror/view";
+
+const LX_TOKEN_RULES: Array<[RegExp, string | null]> = [
+	[/^\/\/.*/, "lx-comment"],
+	[/^"(?:[^"\\]|\\.)*"/, "lx-string"],
+	[/^'(?:[^'\\]|\\.)*'/, "lx-string"],
+	[/^`[^`]*`/, "lx-literal-string"],
+	[/^<[^>]+>/, "lx-template-string"],
+	[/^-?\d+\.?\d*/, "lx-number"],
+	[/^(true|false)\b/, "lx-boolean"],
+	[/^(if|else|for|while|in|break|continue)\b/, "lx-keyword"],
+	[/^=>/, "lx-operator"],
+	[/^(==|!=|<=|>=|&&|\|\||<|>)/, "lx-operator"],
+	[/^(\+\+|--)/, "lx-operator"],
+	[/^[+\-*\/%]/, "lx-operator"],
+	[/^~/, "lx-operator"],
+	[/^=/, "lx-operator"],
+	[/^@[a-zA-Z_][a-zA-Z0-9_-]*/, "lx-function"],
+	[/^[a-zA-Z_][a-zA-Z0-9_-]*/, "lx-identifier"],
+	[/^[(){}\[\],.:]/, null],
+];
+
 export function addLxMode() {
 	// @ts-ignore
 	if (!window.CodeMirror) return;
@@ -35,26 +64,9 @@ export function addLxSyntaxHighlight(
 
 			token: (stream: any, _state: any) => {
 				if (stream.eatSpace()) return null;
-				if (stream.match(/^\/\/.*/)) return "lx-comment";
-				if (stream.match(/^"(?:[^"\\]|\\.)*"/)) return "lx-string";
-				if (stream.match(/^'(?:[^'\\]|\\.)*'/)) return "lx-string";
-				if (stream.match(/^`[^`]*`/)) return "lx-literal-string";
-				if (stream.match(/^<[^>]+>/)) return "lx-template-string";
-				if (stream.match(/^-?\d+\.?\d*/)) return "lx-number";
-				if (stream.match(/^(true|false)\b/)) return "lx-boolean";
-				if (stream.match(/^(if|else|for|while)\b/)) return "lx-keyword";
-				if (stream.match(/^=>/)) return "lx-operator";
-				if (stream.match(/^(==|!=|<=|>=|&&|\|\||<|>)/))
-					return "lx-operator";
-				if (stream.match(/^(\+\+|--)/)) return "lx-operator";
-				if (stream.match(/^[+\-*\/%]/)) return "lx-operator";
-				if (stream.match(/^~/)) return "lx-operator";
-				if (stream.match(/^=/)) return "lx-operator";
-				if (stream.match(/^@[a-zA-Z_][a-zA-Z0-9_-]*/))
-					return "lx-function";
-				if (stream.match(/^[a-zA-Z_][a-zA-Z0-9_-]*/))
-					return "lx-identifier";
-				if (stream.match(/^[(){}\[\],]/)) return null;
+				for (const [pattern, style] of LX_TOKEN_RULES) {
+					if (stream.match(pattern)) return style;
+				}
 				stream.next();
 				return null;
 			},
@@ -63,3 +75,68 @@ export function addLxSyntaxHighlight(
 
 	CodeMirror.defineMIME("text/lx", "lx");
 }
+
+export function lxHighlighting(): Extension {
+	return ViewPlugin.fromClass(
+		class {
+			decorations: DecorationSet;
+
+			constructor(view: EditorView) {
+				this.decorations = buildLxDecorations(view);
+			}
+
+			update(update: ViewUpdate) {
+				if (update.docChanged || update.viewportChanged) {
+					this.decorations = buildLxDecorations(update.view);
+				}
+			}
+		},
+		{ decorations: (plugin) => plugin.decorations }
+	);
+}
+
+function buildLxDecorations(view: EditorView): DecorationSet {
+	const builder = new RangeSetBuilder<Decoration>();
+	const doc = view.state.doc;
+	let nextLine = 1;
+
+	for (const { from, to } of view.visibleRanges) {
+		const first = Math.max(doc.lineAt(from).number, nextLine);
+		const last = doc.lineAt(to).number;
+
+		for (let number = first; number <= last; number++) {
+			const line = doc.line(number);
+			let pos = 0;
+
+			while (pos < line.text.length) {
+				const rest = line.text.slice(pos);
+				const space = rest.match(/^\s+/);
+				if (space) {
+					pos += space[0].length;
+					continue;
+				}
+
+				let length = 1;
+				for (const [pattern, style] of LX_TOKEN_RULES) {
+					const match = rest.match(pattern);
+					if (match) {
+						length = Math.max(match[0].length, 1);
+						if (style) {
+							builder.add(
+								line.from + pos,
+								line.from + pos + length,
+								Decoration.mark({ class: `cm-${style}` })
+							);
+						}
+						break;
+					}
+				}
+				pos += length;
+			}
+		}
+
+		nextLine = last + 1;
+	}
+
+	return builder.finish();
+}
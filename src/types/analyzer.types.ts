@@ -0,0 +1,15 @@
+import { SourceSpan } from "./lexer.types";
+
+export type WarningCode =
+	| "unknown-style"
+	| "unused-variable"
+	| "argument-count"
+	| "shadowed-global"
+	| "unreachable-code";
+
+export interface AnalysisWarning extends Partial<SourceSpan> {
+	code: WarningCode;
+	message: string;
+	line: number;
+	column: number;
+}
@@ -1,4 +1,6 @@
-export interface ASTNode {
+import { SourceSpan } from "./lexer.types";
+
+export interface ASTNode extends Partial<SourceSpan> {
 	type: string;
 	line: number;
 	column: number;
@@ -33,6 +35,11 @@ export interface ArrayNode extends ASTNode {
 	elements: ExpressionNode[];
 }
 
+export interface MapNode extends ASTNode {
+	type: "Map";
+	entries: Array<{ key: string; value: ExpressionNode }>;
+}
+
 export interface ArrayIndexNode extends ASTNode {
 	type: "ArrayIndex";
 	array: ExpressionNode;
@@ -105,6 +112,13 @@ export interface FunctionCallNode extends ASTNode {
 	args: ExpressionNode[];
 }
 
+export interface LambdaNode extends ASTNode {
+	type: "Lambda";
+	params: string[];
+	styles: string[];
+	body: StatementNode[];
+}
+
 export interface AnonymousFunctionNode extends ASTNode {
 	type: "AnonymousFunction";
 	args: ExpressionNode[];
@@ -133,6 +147,14 @@ export interface ForNode extends ASTNode {
 	body: StatementNode[];
 }
 
+export interface ForEachNode extends ASTNode {
+	type: "ForEach";
+	indexName?: string;
+	itemName: string;
+	iterable: ExpressionNode;
+	body: StatementNode[];
+}
+
 export interface WhileNode extends ASTNode {
 	type: "While";
 	condition: ExpressionNode;
@@ -144,18 +166,33 @@ export interface ReturnNode extends ASTNode {
 	value?: ExpressionNode;
 }
 
+export interface BreakNode extends ASTNode {
+	type: "Break";
+}
+
+export interface ContinueNode extends ASTNode {
+	type: "Continue";
+}
+
+export interface ImportNode extends ASTNode {
+	type: "Import";
+	path: string;
+}
+
 export type ExpressionNode =
 	| StringNode
 	| TemplateStringNode
 	| NumberNode
 	| BooleanNode
 	| ArrayNode
+	| MapNode
 	| ArrayIndexNode
 	| IdentifierNode
 	| ConcatenationNode
 	| BinaryOpNode
 	| UnaryOpNode
 	| FunctionCallNode
+	| LambdaNode
 	| AnonymousFunctionNode
 	| BlockNode;
 
@@ -164,8 +201,12 @@ export type StatementNode =
 	| FunctionNode
 	| IfNode
 	| ForNode
+	| ForEachNode
 	| WhileNode
 	| ReturnNode
+	| BreakNode
+	| ContinueNode
+	| ImportNode
 	| ArrayIndexAssignmentNode
 	| ExpressionNode;
 
@@ -175,8 +216,18 @@ export interface ProgramNode extends ASTNode {
 }
 
 export class ParseError extends Error {
-	constructor(message: string, public line: number, public column: number) {
+	start?: number;
+	end?: number;
+
+	constructor(
+		message: string,
+		public line: number,
+		public column: number,
+		span?: Partial<SourceSpan>
+	) {
 		super(`Parse error at line ${line}, column ${column}: ${message}`);
 		this.name = "ParseError";
+		this.start = span?.start;
+		this.end = span?.end;
 	}
 }
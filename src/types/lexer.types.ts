@@ -9,6 +9,9 @@ export enum TokenType {
 	ELSE = "ELSE",
 	FOR = "FOR",
 	WHILE = "WHILE",
+	IN = "IN",
+	BREAK = "BREAK",
+	CONTINUE = "CONTINUE",
 
 	IDENTIFIER = "IDENTIFIER",
 	NAME = "NAME",
@@ -43,27 +46,56 @@ export enum TokenType {
 	LBRACE = "LBRACE",
 	RBRACE = "RBRACE",
 	COMMA = "COMMA",
+	COLON = "COLON",
+	DOT = "DOT",
 
 	NEWLINE = "NEWLINE",
 	EOF = "EOF",
+	ERROR = "ERROR",
 }
 
 export interface TemplatePart {
 	type: "text" | "expression";
 	value: string;
+	origin?: SourcePosition;
 }
 
-export interface Token {
+// Where a piece of source, such as a template expression, starts within the
+// enclosing source
+export interface SourcePosition {
+	line: number;
+	column: number;
+	offset: number;
+}
+
+// Offsets into the source, with `end` exclusive
+export interface SourceSpan {
+	start: number;
+	end: number;
+}
+
+export interface Token extends SourceSpan {
 	type: TokenType;
 	value: string;
 	line: number;
 	column: number;
 	templateParts?: TemplatePart[];
+	error?: LexerError;
 }
 
 export class LexerError extends Error {
-	constructor(message: string, public line: number, public column: number) {
+	start?: number;
+	end?: number;
+
+	constructor(
+		message: string,
+		public line: number,
+		public column: number,
+		span?: Partial<SourceSpan>
+	) {
 		super(`Lexer error at line ${line}, column ${column}: ${message}`);
 		this.name = "LexerError";
+		this.start = span?.start;
+		this.end = span?.end;
 	}
 }
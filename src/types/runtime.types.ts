@@ -0,0 +1,110 @@
+import { EvaluatedValue, ExecutionLimits } from "../evaluator";
+import { AnalysisWarning } from "./analyzer.types";
+
+export const LIBRARY_CONTEXT_KEY = "mdlx:library";
+
+export interface ModuleSource {
+	path: string;
+	sources: string[];
+	imports: Record<string, string>;
+}
+
+export interface ModuleSet {
+	imports: Record<string, string>;
+	modules: Record<string, ModuleSource>;
+}
+
+export interface EvaluateRequest {
+	type: "evaluate";
+	id: number;
+	contextKey: string;
+	source: string;
+	position?: number;
+	isolated?: boolean;
+	nocache?: boolean;
+	modules: ModuleSet;
+	limits: ExecutionLimits;
+}
+
+export interface CompileRequest {
+	type: "compile";
+	id: number;
+	contextKey: string;
+	sources: string[];
+	modules: ModuleSet;
+	limits: ExecutionLimits;
+}
+
+export interface LibraryRequest {
+	type: "library";
+	id: number;
+	contextKey: string;
+	paths: string[];
+	modules: ModuleSet;
+	limits: ExecutionLimits;
+}
+
+export interface ResetRequest {
+	type: "reset";
+	id: number;
+	contextKey: string;
+}
+
+export interface RenameRequest {
+	type: "rename";
+	id: number;
+	contextKey: string;
+	newContextKey: string;
+}
+
+export interface ClearCachesRequest {
+	type: "clearCaches";
+	id: number;
+}
+
+export type RuntimeRequest =
+	| EvaluateRequest
+	| CompileRequest
+	| LibraryRequest
+	| ResetRequest
+	| RenameRequest
+	| ClearCachesRequest;
+
+export interface GlobalNames {
+	variables: string[];
+	functions: string[];
+}
+
+export interface SerializedError {
+	name: string;
+	message: string;
+	line?: number;
+	column?: number;
+	start?: number;
+	end?: number;
+	modulePath?: string;
+}
+
+// A failed top-level statement, rendered in place after the first `index`
+// results of its block
+export interface StatementError {
+	index: number;
+	error: SerializedError;
+}
+
+export interface BlockDependencies {
+	reads: string[];
+	writes: string[];
+	changed: string[];
+}
+
+export interface RuntimeResponse {
+	id: number;
+	contextKey: string;
+	results?: EvaluatedValue[];
+	statementErrors?: StatementError[];
+	error?: SerializedError;
+	warnings?: AnalysisWarning[];
+	globals?: GlobalNames;
+	dependencies?: BlockDependencies;
+}
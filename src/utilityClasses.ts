@@ -529,8 +529,18 @@ export class StyleParser {
 		return cssRules.join(" ");
 	}
 
-	static generateClassName(): string {
-		return `lx-${Math.random().toString(36).slice(2, 11)}`;
+	// Derived from the generated CSS, where a later utility overrides an
+	// earlier one, so lists that produce the same rule share a class
+	static generateClassName(utilityClasses: string[]): string {
+		const key = this.parseClasses(utilityClasses);
+		let hash = 0x811c9dc5;
+
+		for (let i = 0; i < key.length; i++) {
+			hash ^= key.charCodeAt(i);
+			hash = Math.imul(hash, 0x01000193);
+		}
+
+		return `lx-${(hash >>> 0).toString(36)}`;
 	}
 
 	static createStyleRule(